@@ -40,6 +40,7 @@ export default defineBuildConfig({
 		/^fastify\/.*/,
 		'better-auth',
 		/^better-auth\/.*/,
+		'jose',
 		'reflect-metadata',
 		'rxjs',
 		/^rxjs\/.*/,
@@ -0,0 +1,38 @@
+import type { AuthAbility, JwtSession, UserSession } from './types';
+
+/**
+ * **Ability factory** - Build a user's abilities for policy-based authorization
+ *
+ * Extend this class with an `@Injectable()` provider and register it through
+ * `AuthModule.forRoot({ abilityFactory })`. `AuthGuard` calls it once per request
+ * (the result is cached on `request.ability`) to evaluate `@Can()` requirements and
+ * to back the `@Ability()` parameter decorator.
+ *
+ * Any object with a CASL-style `can(action, subject, field?)` method works, so CASL
+ * abilities can be returned as-is.
+ *
+ * @example
+ * ```typescript
+ * @Injectable()
+ * export class AppAbilityFactory extends AbilityFactory<AppAbility> {
+ *   createForUser({ user }: UserSession) {
+ *     const { can, build } = new AbilityBuilder<AppAbility>(createMongoAbility);
+ *
+ *     if (user.role === 'accountant') {
+ *       can('update', 'Invoice', { customerId: { $in: user.customerIds } });
+ *     }
+ *     can('read', 'Invoice', { ownerId: user.id });
+ *
+ *     return build();
+ *   }
+ * }
+ *
+ * AuthModule.forRoot({ auth, abilityFactory: AppAbilityFactory });
+ * ```
+ *
+ * @see {@link Can} to require abilities on routes
+ * @see {@link Ability} to run record-level checks in handlers
+ */
+export abstract class AbilityFactory<A extends AuthAbility = AuthAbility> {
+	abstract createForUser(session: UserSession | JwtSession): A | Promise<A>;
+}
@@ -0,0 +1,308 @@
+import type { Auth } from 'better-auth';
+import type {
+	AuthModuleConfig,
+	SessionCacheOptions,
+	SessionCacheStore,
+	UserSession,
+} from './types';
+
+import { Logger } from '@nestjs/common';
+
+import { getSessionCookie } from 'better-auth/cookies';
+
+import { createHmac, timingSafeEqual } from 'node:crypto';
+
+type SessionListApi = {
+	listSessions?: (ctx: { headers: Headers }) => Promise<{ token: string }[]>;
+	listUserSessions?: (ctx: {
+		headers: Headers;
+		body: { userId: string };
+	}) => Promise<{ sessions: { token: string }[] }>;
+};
+
+const DEFAULT_TTL = 60;
+const DEFAULT_MAX_SIZE = 1000;
+
+/** Routes revoking every session of the current user */
+const OWN_SESSIONS_REVOCATION_PATHS = new Set(['/revoke-sessions', '/revoke-other-sessions']);
+
+/** Admin routes revoking every session of `body.userId` */
+const USER_SESSIONS_REVOCATION_PATHS = new Set([
+	'/admin/revoke-user-sessions',
+	'/admin/ban-user',
+	'/admin/remove-user',
+]);
+
+/** GET routes updating the current session or user */
+const MUTATING_GET_PATHS = new Set(['/verify-email']);
+
+const caches = new WeakMap<Auth, SessionCache>();
+
+/**
+ * Split a (possibly signed and URL-encoded) cookie or bearer value into the session token
+ * and its signature. JWTs, malformed values and other non-session credentials return
+ * undefined.
+ */
+function parseSessionToken(value: string): { token: string; signature?: string } | undefined {
+	let decoded: string;
+	try {
+		decoded = decodeURIComponent(value);
+	} catch {
+		// Malformed percent-encoding (e.g. a truncated `%E0%A4%A`) is not a session token
+		return undefined;
+	}
+
+	const [token, signature, ...rest] = decoded.split('.');
+	return token && !rest.length ? { token, signature } : undefined;
+}
+
+/**
+ * Check the HMAC-SHA256 signature Better Auth appends to session cookies (and signed
+ * bearer tokens)
+ */
+function verifyTokenSignature(token: string, signature: string, secret: string): boolean {
+	const expected = createHmac('sha256', secret).update(token).digest();
+	const actual = Buffer.from(signature, 'base64');
+	return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/**
+ * **In-memory session store** - Default LRU store for the session cache
+ *
+ * Keeps the most recently used sessions up to `maxSize` entries (default: 1000) and
+ * evicts the least recently used entry when full. Entries are local to the process;
+ * use a shared `SessionCacheStore` (e.g. Redis) when running multiple instances.
+ *
+ * @example
+ * ```typescript
+ * AuthModule.forRoot({
+ *   auth,
+ *   sessionCache: { store: new MemorySessionCacheStore({ maxSize: 10_000 }), ttl: 30 },
+ * });
+ * ```
+ */
+export class MemorySessionCacheStore implements SessionCacheStore {
+	private readonly entries = new Map<string, { value: UserSession; expiresAt: number }>();
+	private readonly maxSize: number;
+
+	constructor({ maxSize = DEFAULT_MAX_SIZE }: { maxSize?: number } = {}) {
+		this.maxSize = maxSize;
+	}
+
+	get size(): number {
+		return this.entries.size;
+	}
+
+	get(key: string): UserSession | undefined {
+		const entry = this.entries.get(key);
+		if (!entry) return undefined;
+
+		this.entries.delete(key);
+		if (entry.expiresAt <= Date.now()) return undefined;
+
+		// Re-insert to mark the entry as most recently used
+		this.entries.set(key, entry);
+		return entry.value;
+	}
+
+	set(key: string, value: UserSession, ttl: number): void {
+		this.entries.delete(key);
+		this.entries.set(key, { value, expiresAt: Date.now() + ttl * 1000 });
+
+		if (this.entries.size > this.maxSize) {
+			const [oldest] = this.entries.keys();
+			if (oldest !== undefined) this.entries.delete(oldest);
+		}
+	}
+
+	delete(key: string): void {
+		this.entries.delete(key);
+	}
+}
+
+/**
+ * **Session cache** - Cross-request session cache keyed by session token
+ *
+ * Wraps a `SessionCacheStore` with:
+ * - token extraction from session cookies (or `Authorization: Bearer` with the bearer plugin)
+ * - signature verification before a cached session is trusted - unsigned bearer tokens
+ *   are never served from the cache
+ * - keys namespaced by instance name (`default:` for the unnamed instance), so instances
+ *   can share a store
+ * - TTLs bounded by the session's `expiresAt`
+ * - invalidation of sessions affected by sign-out, revocation and session updates
+ *
+ * Store failures are logged and fall back to a regular session lookup.
+ *
+ * @see {@link getSessionCache} for the shared instance used by `AuthGuard` and `AuthModule`
+ */
+export class SessionCache {
+	private readonly logger = new Logger(SessionCache.name);
+	private readonly store: SessionCacheStore;
+	private readonly ttl: number;
+	private readonly acceptsBearer: boolean;
+	private readonly namespace: string;
+
+	constructor(
+		private readonly auth: Auth,
+		options: SessionCacheOptions = {},
+		name = 'default',
+	) {
+		this.store = options.store ?? new MemorySessionCacheStore();
+		this.ttl = options.ttl ?? DEFAULT_TTL;
+		this.acceptsBearer = !!auth.options.plugins?.some(plugin => plugin.id === 'bearer');
+		this.namespace = `${name}:`;
+	}
+
+	/**
+	 * Session token Better Auth resolves the session from - the bearer token when the
+	 * bearer plugin is installed, the session cookie otherwise. The signature is not checked.
+	 */
+	readToken(headers: Headers): string | undefined {
+		return this.readCredential(headers)?.token;
+	}
+
+	/**
+	 * Session token of the request once its signature is verified with the auth secret.
+	 * Unsigned bearer tokens return undefined, as the bearer plugin may require signatures.
+	 */
+	async readVerifiedToken(headers: Headers): Promise<string | undefined> {
+		const credential = this.readCredential(headers);
+		if (!credential?.signature) return undefined;
+
+		const { secret } = await this.auth.$context;
+		return verifyTokenSignature(credential.token, credential.signature, secret)
+			? credential.token
+			: undefined;
+	}
+
+	/**
+	 * Return the cached session for the request, or load and cache it
+	 *
+	 * @param headers - Request headers carrying the session token
+	 * @param load - Session lookup used on cache misses
+	 */
+	async getSession(
+		headers: Headers,
+		load: () => Promise<UserSession | null>,
+	): Promise<UserSession | null> {
+		const token = await this.readVerifiedToken(headers);
+		if (!token) return load();
+
+		const key = this.namespace + token;
+		const cached = await this.attempt('read', () => this.store.get(key));
+		if (cached) return cached;
+
+		const session = await load();
+		if (session) {
+			const remaining = Math.floor(
+				(new Date(session.session.expiresAt).getTime() - Date.now()) / 1000,
+			);
+			const ttl = Math.min(this.ttl, remaining);
+			if (ttl > 0) await this.attempt('write', () => this.store.set(key, session, ttl));
+		}
+		return session;
+	}
+
+	/**
+	 * Tokens whose cached sessions become stale once the auth handler processes the request.
+	 * Must run before the handler, while revoked sessions can still be listed.
+	 *
+	 * @param method - HTTP method of the auth request
+	 * @param path - Auth route relative to the Better Auth base path (e.g. `/sign-out`)
+	 * @param headers - Request headers
+	 * @param body - Parsed request body
+	 */
+	async collectStaleTokens(
+		method: string,
+		path: string,
+		headers: Headers,
+		body: unknown,
+	): Promise<string[]> {
+		if (method === 'GET' && !MUTATING_GET_PATHS.has(path)) return [];
+
+		const tokens = new Set<string>();
+		const ownToken = this.readToken(headers);
+		if (ownToken) tokens.add(ownToken);
+
+		const { token, sessionToken, userId } = (body ?? {}) as Record<string, unknown>;
+		for (const value of [token, sessionToken]) {
+			if (typeof value === 'string') tokens.add(value);
+		}
+
+		const api = this.auth.api as unknown as SessionListApi;
+		if (OWN_SESSIONS_REVOCATION_PATHS.has(path) && api.listSessions) {
+			const sessions = await this.attempt('list', () => api.listSessions?.({ headers }));
+			for (const session of sessions ?? []) tokens.add(session.token);
+		}
+		if (
+			USER_SESSIONS_REVOCATION_PATHS.has(path) &&
+			api.listUserSessions &&
+			typeof userId === 'string'
+		) {
+			const result = await this.attempt('list', () =>
+				api.listUserSessions?.({ headers, body: { userId } }),
+			);
+			for (const session of result?.sessions ?? []) tokens.add(session.token);
+		}
+
+		return [...tokens];
+	}
+
+	/**
+	 * Remove sessions from the cache
+	 *
+	 * @param tokens - Session tokens to invalidate
+	 */
+	async invalidate(tokens: string[]): Promise<void> {
+		await Promise.all(
+			tokens.map(token => this.attempt('delete', () => this.store.delete(this.namespace + token))),
+		);
+	}
+
+	private readCredential(headers: Headers): { token: string; signature?: string } | undefined {
+		if (this.acceptsBearer) {
+			const [scheme, token] = headers.get('authorization')?.trim().split(/\s+/) ?? [];
+			if (scheme?.toLowerCase() === 'bearer' && token) return parseSessionToken(token);
+		}
+
+		const cookie = getSessionCookie(headers, {
+			cookiePrefix: this.auth.options.advanced?.cookiePrefix,
+		});
+		return cookie ? parseSessionToken(cookie) : undefined;
+	}
+
+	private async attempt<T>(operation: string, fn: () => Promise<T> | T): Promise<T | undefined> {
+		try {
+			return await fn();
+		} catch (error) {
+			this.logger.warn(`Session cache ${operation} failed: ${error}`);
+			return undefined;
+		}
+	}
+}
+
+/**
+ * **Shared session cache** - One `SessionCache` per auth instance
+ *
+ * Shared by every `AuthGuard` instance and the auth handler, so invalidations made while
+ * handling sign-out or revocation requests are visible to all guards.
+ *
+ * @param options - Module configuration
+ * @returns Cached session cache, or undefined when `sessionCache` is disabled
+ */
+export function getSessionCache({
+	auth,
+	sessionCache,
+	name,
+}: AuthModuleConfig): SessionCache | undefined {
+	if (!sessionCache) return undefined;
+
+	let cache = caches.get(auth);
+	if (!cache) {
+		const options = typeof sessionCache === 'object' ? sessionCache : undefined;
+		cache = new SessionCache(auth, options, name);
+		caches.set(auth, cache);
+	}
+	return cache;
+}
@@ -1,11 +1,48 @@
-import type { ExecutionContext } from '@nestjs/common';
-import type { ReflectableDecorator } from '@nestjs/core';
-import type { createAuthMiddleware } from 'better-auth/api';
+import type { CustomDecorator, ExecutionContext, PipeTransform, Type } from '@nestjs/common';
+import type { ContextId, ReflectableDecorator } from '@nestjs/core';
+import type { APIError, createAuthMiddleware } from 'better-auth/api';
 import type { FastifyRequest } from 'fastify';
+import type {
+	AbilityRequirement,
+	AuthEndpoint,
+	AuthEndpointBody,
+	AuthEndpointPath,
+	AuthEndpointResult,
+	AuthFieldOptions,
+	AuthMethod,
+	AuthSession,
+	FreshSessionRequirement,
+	HookPaths,
+	JwtSession,
+	OrganizationRequirement,
+	OwnershipRequirement,
+	PermissionRequirement,
+	PermissionStatements,
+	RpcSession,
+	User,
+	UserSession,
+} from './types';
 
-import { createParamDecorator } from '@nestjs/common';
+import { createParamDecorator, Inject } from '@nestjs/common';
 import { Reflector } from '@nestjs/core';
 
+import { AUTH_FIELD_EXTENSION } from './auth.graphql';
+import { getRpcSession } from './auth.rpc';
+import { AuthService } from './auth.service';
+import { getAuthServiceToken } from './auth.symbols';
+import {
+	getImpersonator,
+	getRequestFromExecutionContext,
+	parseDuration,
+	requireGraphql,
+} from './auth.utils';
+import { getWsSession, type WsClient } from './auth.ws';
+
+type SessionParamDecorator<K> = (
+	property?: K | Type<PipeTransform> | PipeTransform,
+	...pipes: (Type<PipeTransform> | PipeTransform)[]
+) => ParameterDecorator;
+
 /**
  * **Skip authentication** - Make routes publicly accessible
  *
@@ -73,11 +110,558 @@ export const Public: ReflectableDecorator<boolean> = Reflector.createDecorator<b
  */
 export const Optional: ReflectableDecorator<boolean> = Reflector.createDecorator<boolean>();
 
+/**
+ * **List decorator** - Reflectable decorator accepting a variadic list of values
+ *
+ * Behaves like a `Reflector.createDecorator()` decorator (exposes `KEY` and works with
+ * `reflector.getAllAndOverride`) but is applied as `@Decorator('a', 'b')`.
+ */
+export type ListDecorator<T> = ((...values: T[]) => CustomDecorator) & { KEY: string };
+
+const createListDecorator = <T>(): ListDecorator<T> => {
+	const decorator = Reflector.createDecorator<T[]>();
+	return Object.assign((...values: T[]) => decorator(values), { KEY: decorator.KEY });
+};
+
+/**
+ * **Authentication methods** - Declare which credentials a route accepts
+ *
+ * - `'session'` - Better Auth session (default when not declared)
+ * - `'api-key'` - API key from Better Auth's API key plugin, read from the
+ *   `x-api-key` header (configurable with `apiKeyHeader`)
+ *
+ * When both are accepted and an API key header is present, the key is used.
+ * Requests authenticated by API key get `request.apiKey` (owner in `userId`, scopes in
+ * `permissions`); session-based policies such as `@Roles()` only apply to sessions.
+ *
+ * @example
+ * ```typescript
+ * // Server-to-server API
+ * @AuthMethods('api-key')
+ * @Controller('v1/orders')
+ * export class OrdersApiController {
+ *   @ApiKeyScopes('read:orders')
+ *   @Get()
+ *   list(@ApiKey() key: AuthApiKey) {
+ *     return this.ordersService.findByOwner(key.userId);
+ *   }
+ * }
+ *
+ * // Dashboard and servers share the same route
+ * @AuthMethods('session', 'api-key')
+ * @Get('reports')
+ * getReports() {}
+ * ```
+ *
+ * @see {@link ApiKeyScopes} to require key scopes
+ * @see {@link ApiKey} to extract the verified key
+ */
+export const AuthMethods: ListDecorator<AuthMethod> = createListDecorator<AuthMethod>();
+
+/**
+ * **API key scopes** - Require scopes on API key authenticated requests
+ *
+ * Scopes are written as `'<action>:<resource>'` and checked against the key's
+ * `permissions` (e.g. `'read:orders'` requires `{ orders: ['read'] }`). All listed
+ * scopes are required.
+ *
+ * @example
+ * ```typescript
+ * @AuthMethods('api-key')
+ * @ApiKeyScopes('read:orders', 'write:orders')
+ * @Post('v1/orders')
+ * createOrder() {}
+ * ```
+ *
+ * @throws {APIError} FORBIDDEN with code `INSUFFICIENT_API_KEY_SCOPES` and `missingScopes`
+ */
+export const ApiKeyScopes: ListDecorator<string> = createListDecorator<string>();
+
+/**
+ * **Force stateful session** - Skip stateless JWT verification for a route
+ *
+ * When the module runs in JWT mode (`jwt: true`), `AuthGuard` verifies JWT plugin tokens
+ * locally without a database lookup. Sensitive endpoints can require a real Better Auth
+ * session lookup instead, so revoked sessions are rejected immediately.
+ * `@RequireFreshSession()` routes always use a session lookup, as JWTs do not carry the
+ * session creation time.
+ *
+ * @example
+ * ```typescript
+ * @StatefulSession()
+ * @Post('transfer')
+ * transferFunds(@Session() session: UserSession) {}
+ * ```
+ */
+export const StatefulSession: ReflectableDecorator<boolean> = Reflector.createDecorator<boolean>();
+
+/**
+ * **Role-based authorization** - Restrict routes to users with specific roles
+ *
+ * Evaluated by `AuthGuard` right after the session is attached, using the `role` field
+ * that Better Auth's admin plugin stores on `session.user`. Access is granted when the
+ * user has **any** of the listed roles (comma-separated multi-role values are supported).
+ *
+ * Handler-level roles override class-level roles, exactly like `@Public()`.
+ *
+ * @example
+ * ```typescript
+ * @Roles('admin')
+ * @Controller('admin')
+ * export class AdminController {
+ *   // Only admins
+ *   @Get('dashboard')
+ *   getDashboard() {
+ *     return this.adminService.getDashboard();
+ *   }
+ *
+ *   // Admins or support staff (overrides the class-level roles)
+ *   @Roles('admin', 'support')
+ *   @Get('tickets')
+ *   getTickets() {
+ *     return this.ticketService.findAll();
+ *   }
+ * }
+ * ```
+ *
+ * @throws {APIError} FORBIDDEN when the user has none of the required roles
+ * @see {@link AuthGuard} for evaluation order
+ */
+export const Roles: ListDecorator<string> = createListDecorator<string>();
+
+const PermissionsDecorator = Reflector.createDecorator<PermissionRequirement>();
+
+/**
+ * **Fine-grained permissions** - Declarative Better Auth access control checks
+ *
+ * Resolved by `AuthGuard` through the configured auth instance:
+ * - admin plugin → `auth.api.userHasPermission` for the current user
+ * - organization plugin → `auth.api.hasPermission` for the active organization
+ *
+ * Permissions are the statements you defined with `createAccessControl`.
+ * Handler-level requirements override class-level ones.
+ *
+ * @param permissions - Required resource actions (e.g. `{ project: ['create', 'delete'] }`)
+ * @param options - `mode` (`'all'` by default, or `'any'`) and optional plugin `source`
+ *
+ * @example
+ * ```typescript
+ * @Controller('projects')
+ * export class ProjectController {
+ *   // Requires both actions
+ *   @RequirePermissions({ project: ['create', 'delete'] })
+ *   @Post('import')
+ *   importProjects() {}
+ *
+ *   // Any of the listed actions is enough
+ *   @RequirePermissions({ project: ['update'], admin: ['manage'] }, { mode: 'any' })
+ *   @Patch(':id')
+ *   updateProject() {}
+ *
+ *   // Check against the active organization's member role
+ *   @RequirePermissions({ member: ['create'] }, { source: 'organization' })
+ *   @Post('members')
+ *   inviteMember() {}
+ * }
+ * ```
+ *
+ * @throws {APIError} FORBIDDEN with `missingPermissions` in the error body
+ */
+export const RequirePermissions: ((
+	permissions: PermissionStatements,
+	options?: Omit<PermissionRequirement, 'permissions'>,
+) => CustomDecorator) & { KEY: string } = Object.assign(
+	(permissions: PermissionStatements, options?: Omit<PermissionRequirement, 'permissions'>) =>
+		PermissionsDecorator({ ...options, permissions }),
+	{ KEY: PermissionsDecorator.KEY },
+);
+
+/**
+ * **Organization scope** - Require an active organization membership
+ *
+ * Built for Better Auth's organization plugin. `AuthGuard` reads
+ * `session.session.activeOrganizationId`, loads the user's membership once per request
+ * (cached on `request.activeMember`) and optionally checks the member role.
+ *
+ * @param requirement - Optional `roles` allowed in the active organization (any of)
+ *
+ * @example
+ * ```typescript
+ * @RequireOrganization()
+ * @Controller('workspace')
+ * export class WorkspaceController {
+ *   // Any member of the active organization
+ *   @Get('projects')
+ *   getProjects(@ActiveOrganization() member: OrganizationMember) {
+ *     return this.projectService.findByOrganization(member.organizationId);
+ *   }
+ *
+ *   // Only owners and admins
+ *   @RequireOrganization({ roles: ['owner', 'admin'] })
+ *   @Delete()
+ *   deleteWorkspace(@ActiveOrganization() member: OrganizationMember) {
+ *     return this.workspaceService.delete(member.organizationId);
+ *   }
+ * }
+ * ```
+ *
+ * @throws {APIError} FORBIDDEN when no organization is active, the user is not a member,
+ * or the member role is not allowed
+ * @see {@link ActiveOrganization} to access the membership in handlers
+ */
+export const RequireOrganization: ReflectableDecorator<OrganizationRequirement> =
+	Reflector.createDecorator<OrganizationRequirement>();
+
+/**
+ * **Verified email policy** - Require `session.user.emailVerified`
+ *
+ * Apply to routes or controllers that need a confirmed email address. When the module
+ * enables `requireVerifiedEmail: true`, every protected route requires it and
+ * `@RequireVerifiedEmail(false)` opts a route out (e.g. the "resend verification" page).
+ *
+ * @example
+ * ```typescript
+ * // Per route
+ * @RequireVerifiedEmail()
+ * @Post('orders')
+ * createOrder() {}
+ *
+ * // Module default with opt-out
+ * AuthModule.forRoot({ auth, requireVerifiedEmail: true });
+ *
+ * @RequireVerifiedEmail(false)
+ * @Get('onboarding')
+ * getOnboarding() {}
+ * ```
+ *
+ * @throws {APIError} FORBIDDEN with code `EMAIL_NOT_VERIFIED`
+ */
+export const RequireVerifiedEmail: ReflectableDecorator<boolean> =
+	Reflector.createDecorator<boolean>();
+
+/**
+ * **Two-factor policy** - Require two-factor authentication to be enabled
+ *
+ * Uses the `twoFactorEnabled` field added to users by Better Auth's two-factor plugin.
+ * `@RequireTwoFactor(false)` opts a route out of a class-level requirement.
+ *
+ * @example
+ * ```typescript
+ * @RequireTwoFactor()
+ * @Controller('admin')
+ * export class AdminController {
+ *   @Get('users')
+ *   getUsers() {}
+ * }
+ * ```
+ *
+ * @throws {APIError} FORBIDDEN with code `TWO_FACTOR_REQUIRED`
+ */
+export const RequireTwoFactor: ReflectableDecorator<boolean> = Reflector.createDecorator<boolean>();
+
+/**
+ * **Banned user policy** - Let users banned by the admin plugin through
+ *
+ * Banned users (`user.banned` with a `banExpires` in the future, or no expiry) are
+ * rejected on every protected route by default. Use on routes banned users must
+ * still reach (e.g. a ban appeal form), or `@AllowBanned(false)` to enforce the ban
+ * when the module sets `allowBannedUsers: true`.
+ *
+ * @example
+ * ```typescript
+ * @AllowBanned()
+ * @Post('appeals')
+ * createAppeal(@Session() session: UserSession, @Body() dto: AppealDto) {}
+ * ```
+ *
+ * @throws {APIError} FORBIDDEN with code `USER_BANNED` (with `banReason` and `banExpires`)
+ */
+export const AllowBanned: ReflectableDecorator<boolean> = Reflector.createDecorator<boolean>();
+
+/**
+ * **Anonymous user policy** - Let anonymous plugin users through
+ *
+ * Sessions of anonymous users (`user.isAnonymous`) are rejected on protected routes by
+ * default, since most routes need a real account. Apply to routes or controllers that
+ * guests may use, or `@AllowAnonymous(false)` when the module sets `allowAnonymous: true`.
+ *
+ * @example
+ * ```typescript
+ * @Controller('cart')
+ * @AllowAnonymous()
+ * export class CartController {
+ *   @Post('items')
+ *   addItem(@Session() session: UserSession, @Body() dto: CartItemDto) {}
+ *
+ *   @AllowAnonymous(false) // checkout requires an account
+ *   @Post('checkout')
+ *   checkout() {}
+ * }
+ * ```
+ *
+ * @throws {APIError} FORBIDDEN with code `ANONYMOUS_USER_NOT_ALLOWED`
+ */
+export const AllowAnonymous: ReflectableDecorator<boolean> = Reflector.createDecorator<boolean>();
+
+/**
+ * **Login redirect** - Send unauthenticated browsers to the login page
+ *
+ * For requests accepting `text/html` (server-rendered pages), `AuthGuard` answers
+ * unauthenticated access with a 302 to the login page instead of a JSON 401. A sanitized
+ * `callbackURL` query parameter points back to the requested page. API clients keep
+ * receiving JSON errors. `@LoginRedirect(false)` disables the module-level `loginRedirect`.
+ *
+ * @example
+ * ```typescript
+ * @Controller('dashboard')
+ * @LoginRedirect('/login')
+ * export class DashboardController {
+ *   @Get()
+ *   @Render('dashboard')
+ *   index(@Session() session: UserSession) {
+ *     return { user: session.user };
+ *   }
+ * }
+ * // GET /dashboard?tab=billing -> 302 /login?callbackURL=%2Fdashboard%3Ftab%3Dbilling
+ * ```
+ */
+export const LoginRedirect: ReflectableDecorator<string | false> = Reflector.createDecorator<
+	string | false
+>();
+
+const FreshSessionDecorator = Reflector.createDecorator<FreshSessionRequirement>();
+
+/**
+ * **Step-up authentication** - Require a recently created session
+ *
+ * Protect sensitive actions (payout changes, workspace deletion) by rejecting sessions
+ * whose `session.session.createdAt` is older than `maxAge`. Clients receive the
+ * `SESSION_NOT_FRESH` error code and should prompt the user to sign in again.
+ *
+ * @param maxAge - Maximum session age: seconds or `'30s'`, `'10m'`, `'1h'`, `'7d'`
+ * @param options - `twoFactorField`: session field with the last two-factor verification
+ * time that must also be within `maxAge`
+ *
+ * @example
+ * ```typescript
+ * @Controller('billing')
+ * export class BillingController {
+ *   @RequireFreshSession('10m')
+ *   @Put('payout-account')
+ *   updatePayoutAccount(@Body() dto: PayoutAccountDto) {
+ *     return this.billingService.updatePayoutAccount(dto);
+ *   }
+ *
+ *   // Also require a recent two-factor challenge (custom session field)
+ *   @RequireFreshSession('5m', { twoFactorField: 'twoFactorVerifiedAt' })
+ *   @Delete('workspace')
+ *   deleteWorkspace() {}
+ * }
+ * ```
+ *
+ * @throws {Error} At decoration time when `maxAge` has an invalid format
+ * @throws {APIError} FORBIDDEN with code `SESSION_NOT_FRESH` when the session is too old
+ */
+export const RequireFreshSession: ((
+	maxAge: string | number,
+	options?: Omit<FreshSessionRequirement, 'maxAge'>,
+) => CustomDecorator) & { KEY: string } = Object.assign(
+	(maxAge: string | number, options?: Omit<FreshSessionRequirement, 'maxAge'>) =>
+		FreshSessionDecorator({ ...options, maxAge: parseDuration(maxAge) }),
+	{ KEY: FreshSessionDecorator.KEY },
+);
+
+/**
+ * **Resource ownership** - Restrict routes to the owner of the requested resource
+ *
+ * After loading the session, `AuthGuard` reads the resource id from the route `param`,
+ * asks the `resolver` for the owning user id and rejects the request with 403
+ * `NOT_RESOURCE_OWNER` unless it matches `session.user.id`. Users with one of the
+ * `bypassRoles` (default: `['admin']`) skip the check.
+ *
+ * @example
+ * ```typescript
+ * @OwnerResolver()
+ * @Injectable()
+ * export class InvoiceOwnerResolver implements OwnershipResolver {
+ *   constructor(private readonly invoices: InvoiceRepository) {}
+ *
+ *   async resolveOwner(id: string) {
+ *     return (await this.invoices.findOne(id))?.userId;
+ *   }
+ * }
+ *
+ * @Controller('invoices')
+ * export class InvoiceController {
+ *   @OwnedBy({ param: 'id', resolver: InvoiceOwnerResolver })
+ *   @Delete(':id')
+ *   remove(@Param('id') id: string) {}
+ * }
+ * ```
+ *
+ * @see {@link OwnerResolver} to register resolvers
+ */
+export const OwnedBy: ReflectableDecorator<OwnershipRequirement> =
+	Reflector.createDecorator<OwnershipRequirement>();
+
+/**
+ * **Ownership resolver** - Mark a provider as an `@OwnedBy()` resolver
+ *
+ * Resolvers are regular DI providers (inject repositories, services, ...) discovered by
+ * `AuthModule` on startup, like `@Hook()` providers. Register them in any module's
+ * `providers` with the default scope.
+ *
+ * @see {@link OwnedBy} for usage
+ */
+export const OwnerResolver: ReflectableDecorator<boolean> = Reflector.createDecorator<boolean>();
+
+/**
+ * **Block impersonation** - Reject requests made while an admin impersonates the user
+ *
+ * For actions support staff must never perform on a user's behalf (changing passwords,
+ * payment details, ...). `AuthGuard` rejects impersonated sessions (Better Auth admin
+ * plugin) with 403 `IMPERSONATION_NOT_ALLOWED`.
+ *
+ * @example
+ * ```typescript
+ * @DenyImpersonation()
+ * @Put('payment-method')
+ * updatePaymentMethod(@Body() dto: PaymentMethodDto) {}
+ * ```
+ *
+ * @see {@link Impersonator} to read the impersonating admin
+ */
+export const DenyImpersonation: ReflectableDecorator<boolean> =
+	Reflector.createDecorator<boolean>();
+
+const CanDecorator = Reflector.createDecorator<AbilityRequirement>();
+
+/**
+ * **Policy-based authorization** - Require an ability from the registered `AbilityFactory`
+ *
+ * `AuthGuard` builds the user's abilities once per request and rejects the request with
+ * 403 `ACTION_NOT_ALLOWED` unless `ability.can(action, subject, field)` passes.
+ * Checks the subject type only - use `@Ability()` for record-level checks in handlers.
+ *
+ * @param action - Action to perform (e.g. `'update'`)
+ * @param subject - Subject type (e.g. `'Invoice'`)
+ * @param field - Optional field the action applies to
+ *
+ * @example
+ * ```typescript
+ * @Controller('invoices')
+ * @Can('read', 'Invoice')
+ * export class InvoiceController {
+ *   @Get()
+ *   list() {}
+ *
+ *   @Can('update', 'Invoice')
+ *   @Patch(':id')
+ *   async update(@Param('id') id: string, @Ability() ability: AppAbility) {
+ *     const invoice = await this.invoices.findOne(id);
+ *     if (!ability.can('update', invoice)) throw new ForbiddenException();
+ *   }
+ * }
+ * ```
+ *
+ * @see {@link AbilityFactory} to define abilities
+ */
+export const Can: ((action: string, subject: string, field?: string) => CustomDecorator) & {
+	KEY: string;
+} = Object.assign(
+	(action: string, subject: string, field?: string) => CanDecorator({ action, subject, field }),
+	{ KEY: CanDecorator.KEY },
+);
+
+/**
+ * **Auth instance selector** - Validate the route against a named auth instance
+ *
+ * `AuthGuard` resolves sessions, API keys and policies with the instance registered via
+ * `AuthModule.forRoot({ name })` instead of the default one. Handler-level names override
+ * class-level names.
+ *
+ * @example
+ * ```typescript
+ * @UseAuth('admin')
+ * @Roles('support')
+ * @Controller('back-office')
+ * export class BackOfficeController {}
+ * ```
+ *
+ * @throws {Error} When no instance is registered with the name
+ * @see {@link InjectAuth} to inject a named instance's `AuthService`
+ */
+export const UseAuth: ReflectableDecorator<string> = Reflector.createDecorator<string>();
+
+/**
+ * **Inject auth instance** - Inject the `AuthService` of a named auth instance
+ *
+ * Without a name, injects the default instance's `AuthService`.
+ *
+ * @example
+ * ```typescript
+ * @Injectable()
+ * export class StaffService {
+ *   constructor(@InjectAuth('admin') private readonly adminAuth: AuthService) {}
+ *
+ *   listStaffSessions(headers: Headers) {
+ *     return this.adminAuth.api.listSessions({ headers });
+ *   }
+ * }
+ * ```
+ *
+ * @param name - Instance name passed to `AuthModule.forRoot({ name })`
+ */
+export function InjectAuth(name?: string): PropertyDecorator & ParameterDecorator {
+	return Inject(name ? getAuthServiceToken(name) : AuthService);
+}
+
+/**
+ * **GraphQL field authorization** - Protect individual fields of code-first schemas
+ *
+ * Stores the requirements in the field (or type) `extensions`, enforced by
+ * `authDirectiveTransformer` using the session `AuthGuard` attached to the request.
+ * Unauthorized fields resolve to `null` with an `UNAUTHENTICATED` or `FORBIDDEN` error
+ * instead of failing the whole operation. Requires `@nestjs/graphql`.
+ *
+ * The session comes from the guarded parent operation: mark queries open to anonymous
+ * callers `@Optional()`, not `@Public()`, since `AuthGuard` does not resolve the session
+ * of public operations and every protected field would then be `UNAUTHENTICATED`.
+ *
+ * @example
+ * ```typescript
+ * @ObjectType()
+ * export class User {
+ *   @Field() name: string;
+ *
+ *   @AuthField({ roles: ['admin'] })
+ *   @Field({ nullable: true })
+ *   email?: string;
+ * }
+ *
+ * @Resolver(() => User)
+ * export class UserResolver {
+ *   @AuthField() // any signed-in user
+ *   @ResolveField(() => [Order], { nullable: true })
+ *   orders(@Parent() user: User) {}
+ * }
+ * ```
+ *
+ * @see {@link authDirectiveTransformer} to enforce the requirements
+ */
+export function AuthField(
+	options: AuthFieldOptions = {},
+): MethodDecorator & ClassDecorator & PropertyDecorator {
+	return requireGraphql('@nestjs/graphql').Extensions({ [AUTH_FIELD_EXTENSION]: options });
+}
+
 /**
  * **Extract user session** - Type-safe access to authenticated user
  *
  * Get complete user data and session metadata with full TypeScript support.
  * Works seamlessly with `@Optional()` - returns undefined when not authenticated.
+ * Resolves the session `AuthGuard` attached in HTTP, GraphQL, WebSocket and RPC
+ * contexts. Pass a property name to pick part of the session, and pipes to validate it.
  *
  * **What you get:**
  * - `session.user` - User profile (id, email, name, custom fields)
@@ -113,11 +697,208 @@ export const Optional: ReflectableDecorator<boolean> = Reflector.createDecorator
  * ```
  *
  * @see {@link UserSession} for complete type definition
+ * @see {@link CurrentUser} and {@link SessionField} to extract a single field
  */
-export const Session: ParameterDecorator = createParamDecorator(
+export const Session: SessionParamDecorator<keyof UserSession> = createParamDecorator(
+	(property: keyof UserSession | undefined, context: ExecutionContext): unknown => {
+		const session = getContextSession(context);
+		return property ? session?.[property] : session;
+	},
+);
+
+/**
+ * **Extract current user** - Authenticated user, or one of its fields
+ *
+ * Shorthand for `@Session('user')`. Works in HTTP, GraphQL, WebSocket and RPC contexts
+ * (only `id` on microservice handlers, see {@link RpcSession}); returns undefined when
+ * not authenticated.
+ *
+ * @example
+ * ```typescript
+ * @Get('me')
+ * me(@CurrentUser() user: User) {
+ *   return user;
+ * }
+ *
+ * @Query(() => [Order])
+ * orders(@CurrentUser('id', ParseUUIDPipe) userId: string) {
+ *   return this.orders.findByUser(userId);
+ * }
+ * ```
+ */
+export const CurrentUser: SessionParamDecorator<keyof User> = createParamDecorator(
+	(property: keyof User | undefined, context: ExecutionContext): unknown => {
+		const user = getContextSession(context)?.user as Partial<User> | undefined;
+		return property ? user?.[property] : user;
+	},
+);
+
+/**
+ * **Extract session field** - Field of the session record (`session.session`)
+ *
+ * Works in HTTP, GraphQL, WebSocket and RPC contexts (only `id`, `userId` and `expiresAt`
+ * on microservice handlers, see {@link RpcSession}); returns undefined when not
+ * authenticated.
+ *
+ * @example
+ * ```typescript
+ * @Get('session')
+ * status(@SessionField('expiresAt') expiresAt: Date, @SessionField('ipAddress') ip?: string) {
+ *   return { expiresAt, ip };
+ * }
+ * ```
+ */
+export const SessionField: SessionParamDecorator<keyof AuthSession> = createParamDecorator(
+	(property: keyof AuthSession | undefined, context: ExecutionContext): unknown => {
+		const session = getContextSession(context)?.session as Partial<AuthSession> | undefined;
+		return property ? session?.[property] : session;
+	},
+);
+
+/**
+ * Session attached by `AuthGuard`, or cached by `WsSessionManager` on gateway clients.
+ * Microservice handlers get the session verified from the message envelope.
+ */
+function getContextSession(
+	context: ExecutionContext,
+): UserSession | JwtSession | RpcSession | undefined {
+	if (context.getType() === 'rpc') {
+		return getRpcSession(context.switchToRpc().getData()) ?? undefined;
+	}
+
+	const request = getContextRequest(context);
+	if (request?.session) return request.session;
+
+	if (context.getType() === 'ws') {
+		return getWsSession(context.switchToWs().getClient<WsClient>());
+	}
+	return undefined;
+}
+
+/**
+ * Request `AuthGuard` attaches its state to - undefined for microservice handlers, whose
+ * payload is controlled by the sender
+ */
+function getContextRequest(context: ExecutionContext): FastifyRequest | undefined {
+	if (context.getType() === 'rpc') return undefined;
+	return getRequestFromExecutionContext(context);
+}
+
+/**
+ * **Extract WebSocket session** - Session cached on the client by `WsSessionManager`
+ *
+ * Use in gateway message handlers - no session lookup is performed per message.
+ * Returns undefined when the client was not authenticated with `WsSessionManager`.
+ *
+ * @example
+ * ```typescript
+ * @SubscribeMessage('message')
+ * onMessage(@WsSession() session: UserSession, @MessageBody() text: string) {
+ *   return { from: session.user.name, text };
+ * }
+ * ```
+ *
+ * @see {@link WsSessionManager} to authenticate connections
+ */
+export const WsSession: ParameterDecorator = createParamDecorator(
+	(_data: unknown, context: ExecutionContext): unknown =>
+		getWsSession(context.switchToWs().getClient<WsClient>()),
+);
+
+/**
+ * **Extract active organization** - Membership in the session's active organization
+ *
+ * Returns the `OrganizationMember` loaded by `AuthGuard` for `@RequireOrganization()`
+ * routes (`organizationId`, `role`, `userId`, ...). No extra lookup is performed -
+ * returns undefined when the membership was not loaded.
+ *
+ * @example
+ * ```typescript
+ * @RequireOrganization({ roles: ['owner', 'admin'] })
+ * @Post('invitations')
+ * invite(@ActiveOrganization() member: OrganizationMember, @Body() dto: InviteDto) {
+ *   return this.invitationService.create(member.organizationId, dto);
+ * }
+ * ```
+ *
+ * @see {@link RequireOrganization} to load and verify the membership
+ */
+export const ActiveOrganization: ParameterDecorator = createParamDecorator(
 	(_data: unknown, context: ExecutionContext): unknown => {
-		const request = context.switchToHttp().getRequest<FastifyRequest>();
-		return request.session;
+		const request = getContextRequest(context);
+		return request?.activeMember ?? undefined;
+	},
+);
+
+/**
+ * **Extract API key** - Verified key on API key authenticated requests
+ *
+ * Returns the key attached by `AuthGuard` (`userId`, `permissions`, `name`, ...),
+ * or undefined for session authenticated requests.
+ *
+ * @example
+ * ```typescript
+ * @AuthMethods('api-key')
+ * @Get('v1/me')
+ * whoAmI(@ApiKey() key: AuthApiKey) {
+ *   return { owner: key.userId, scopes: key.permissions };
+ * }
+ * ```
+ *
+ * @see {@link AuthMethods} to accept API keys
+ */
+export const ApiKey: ParameterDecorator = createParamDecorator(
+	(_data: unknown, context: ExecutionContext): unknown => {
+		const request = getContextRequest(context);
+		return request?.apiKey ?? undefined;
+	},
+);
+
+/**
+ * **Extract impersonator** - User id of the admin impersonating the session user
+ *
+ * Reads `session.impersonatedBy` set by Better Auth's admin plugin. Returns undefined
+ * for regular sessions.
+ *
+ * @example
+ * ```typescript
+ * @Post('notes')
+ * addNote(@Session() session: UserSession, @Impersonator() impersonator?: string) {
+ *   return this.notes.create({ userId: session.user.id, createdBy: impersonator ?? session.user.id });
+ * }
+ * ```
+ *
+ * @see {@link DenyImpersonation} to block impersonated sessions
+ */
+export const Impersonator: ParameterDecorator = createParamDecorator(
+	(_data: unknown, context: ExecutionContext): unknown => {
+		return getImpersonator(getContextSession(context));
+	},
+);
+
+/**
+ * **Extract ability** - Abilities built by the registered `AbilityFactory`
+ *
+ * Returns the ability cached on the request by `AuthGuard`, for record-level checks
+ * inside handlers. Returns undefined when no `abilityFactory` is configured or the
+ * request is not authenticated with a session.
+ *
+ * @example
+ * ```typescript
+ * @Delete(':id')
+ * async remove(@Param('id') id: string, @Ability() ability: AppAbility) {
+ *   const customer = await this.customers.findOne(id);
+ *   if (!ability.can('delete', customer)) throw new ForbiddenException();
+ *   return this.customers.remove(customer);
+ * }
+ * ```
+ *
+ * @see {@link AbilityFactory} to define abilities
+ */
+export const Ability: ParameterDecorator = createParamDecorator(
+	(_data: unknown, context: ExecutionContext): unknown => {
+		const request = getContextRequest(context);
+		return request?.ability;
 	},
 );
 
@@ -129,11 +910,90 @@ export const Session: ParameterDecorator = createParamDecorator(
  * - `ctx.headers` - Request headers for IP, user-agent tracking
  * - `ctx.user` - Authenticated user (available in @AfterHook)
  * - `ctx.request` - Full Fastify request object
+ * - `ctx.contextId` - Nest context id of the request (`moduleRef.resolve(Type, ctx.contextId)`)
+ *
+ * Pass the hook's route to type the context after the endpoint: `ctx.body` becomes the
+ * endpoint's request body and `ctx.context.returned` its result (or the `APIError` it threw).
+ * Routes of plugin endpoints are typed once the instance is registered with `AuthRegister`.
+ *
+ * @example
+ * ```typescript
+ * @BeforeHook('/sign-up/email')
+ * async validateEmail(ctx: AuthHookContext<'/sign-up/email'>) {
+ *   ctx.body.email; // string
+ * }
+ *
+ * @AfterHook('/sign-in/email')
+ * async auditSignIn(ctx: AuthHookContext<'/sign-in/email'>) {
+ *   const returned = ctx.context.returned; // { redirect, token, url, user } | APIError
+ *   if (returned && !(returned instanceof Error)) {
+ *     this.audit.log('sign-in', returned.user.id);
+ *   }
+ * }
+ * ```
  *
  * @see {@link BeforeHook} for pre-authentication hooks
  * @see {@link AfterHook} for post-authentication hooks
  */
-export type AuthHookContext = Parameters<Parameters<typeof createAuthMiddleware>[0]>[0];
+export type AuthHookContext<P extends string = string> = P extends string
+	? EndpointHookContext<P>
+	: never;
+
+type BaseHookContext = Parameters<Parameters<typeof createAuthMiddleware>[0]>[0] & {
+	/** Nest context id of the auth request, shared by its request-scoped hook providers */
+	contextId: ContextId;
+};
+
+type EndpointHookContext<P extends string> = `/${string}` extends P
+	? BaseHookContext
+	: [AuthEndpoint<P>] extends [never]
+		? BaseHookContext
+		: Omit<BaseHookContext, 'body'> & {
+				body: AuthEndpointBody<P>;
+				context: { returned?: AuthEndpointResult<P> | APIError };
+			};
+
+/**
+ * **Hook decorator** - `@BeforeHook()` / `@AfterHook()` typed after the hooked routes
+ *
+ * Routes must be endpoints of the registered auth instance (globs must match one), and
+ * the decorated method must accept the context of those endpoints. RegExps, globs and
+ * routes without a known endpoint get the untyped `AuthHookContext`.
+ */
+export interface HookDecorator {
+	<const P extends HookPaths>(
+		paths?: P extends ValidHookPaths<P> ? P : ValidHookPaths<P>,
+	): HookMethodDecorator<HookPathsContext<P>>;
+	readonly KEY: string;
+}
+
+type HookMethodDecorator<C> = <T extends (ctx: C) => unknown>(
+	target: object,
+	propertyKey: string | symbol,
+	descriptor: TypedPropertyDescriptor<T>,
+) => void;
+
+type ValidHookPaths<P> = P extends readonly unknown[]
+	? { readonly [K in keyof P]: ValidHookPath<P[K]> }
+	: ValidHookPath<P>;
+
+type ValidHookPath<M> = M extends RegExp
+	? M
+	: `/${string}` extends AuthEndpointPath
+		? M
+		: M extends `${infer Prefix}*${string}`
+			? [Extract<AuthEndpointPath, `${Prefix}${string}`>] extends [never]
+				? AuthEndpointPath
+				: M
+			: M extends AuthEndpointPath
+				? M
+				: AuthEndpointPath;
+
+type HookPathsContext<P> = (P extends readonly (infer M)[] ? M : P) extends infer M
+	? [Extract<M, RegExp | `${string}*${string}`>] extends [never]
+		? AuthHookContext<Extract<M, string>>
+		: AuthHookContext
+	: never;
 
 /**
  * **Pre-authentication hook** - Intercept and validate before Better Auth processes
@@ -147,7 +1007,11 @@ export type AuthHookContext = Parameters<Parameters<typeof createAuthMiddleware>
  *
  * **Pro tip:** Throw errors to reject requests before authentication
  *
- * @param path - Better Auth route (e.g., '/sign-in/email', '/sign-up/email')
+ * **Type safety:** Routes are checked against the endpoints of the registered auth instance,
+ * and `AuthHookContext<'/sign-up/email'>` types `ctx.body` after the endpoint
+ *
+ * @param paths - Better Auth routes: exact paths (`'/sign-up/email'`), globs (`'/sign-in/*'`),
+ * regular expressions, or an array of them. Omit to run on every route.
  * @example
  * ```typescript
  * @Hook()
@@ -155,7 +1019,8 @@ export type AuthHookContext = Parameters<Parameters<typeof createAuthMiddleware>
  * export class SecurityHooks {
  *   constructor(
  *     private rateLimiter: RateLimiterService,
- *     private blocklist: BlocklistService
+ *     private blocklist: BlocklistService,
+ *     private audit: AuditService
  *   ) {}
  *
  *   // Prevent brute-force attacks
@@ -172,7 +1037,7 @@ export type AuthHookContext = Parameters<Parameters<typeof createAuthMiddleware>
  *
  *   // Block disposable emails
  *   @BeforeHook('/sign-up/email')
- *   async validateEmail(ctx: AuthHookContext) {
+ *   async validateEmail(ctx: AuthHookContext<'/sign-up/email'>) {
  *     const { email } = ctx.body;
  *     const domain = email.split('@')[1];
  *
@@ -181,9 +1046,15 @@ export type AuthHookContext = Parameters<Parameters<typeof createAuthMiddleware>
  *     }
  *   }
  *
+ *   // Audit every sign-in method (email, social providers, ...)
+ *   @BeforeHook(['/sign-in/*', '/callback/*'])
+ *   async auditSignIn(ctx: AuthHookContext) {
+ *     this.audit.log('sign-in attempt', { path: ctx.path, ip: ctx.request?.headers.get('x-forwarded-for') });
+ *   }
+ *
  *   // Enterprise domain restriction
  *   @BeforeHook('/sign-up/email')
- *   async enforceWorkEmail(ctx: AuthHookContext) {
+ *   async enforceWorkEmail(ctx: AuthHookContext<'/sign-up/email'>) {
  *     const { email } = ctx.body;
  *     if (!email.endsWith('@company.com')) {
  *       throw new Error('Only company email addresses allowed');
@@ -195,8 +1066,7 @@ export type AuthHookContext = Parameters<Parameters<typeof createAuthMiddleware>
  * @see {@link AfterHook} for post-authentication hooks
  * @see {@link Hook} to mark class as hook provider
  */
-export const BeforeHook: ReflectableDecorator<`/${string}`> =
-	Reflector.createDecorator<`/${string}`>();
+export const BeforeHook = Reflector.createDecorator<HookPaths>() as HookDecorator;
 
 /**
  * **Post-authentication hook** - Execute logic after successful authentication
@@ -210,7 +1080,11 @@ export const BeforeHook: ReflectableDecorator<`/${string}`> =
  *
  * **Pro tip:** Access `ctx.user` to get freshly authenticated user data
  *
- * @param path - Better Auth route (e.g., '/sign-up/email', '/sign-in/email')
+ * **Type safety:** Routes are checked against the endpoints of the registered auth instance,
+ * and `AuthHookContext<'/sign-in/email'>` types `ctx.context.returned` after the endpoint
+ *
+ * @param paths - Better Auth routes: exact paths (`'/sign-up/email'`), globs (`'/sign-in/*'`),
+ * regular expressions, or an array of them. Omit to run on every route.
  * @example
  * ```typescript
  * @Hook()
@@ -271,8 +1145,7 @@ export const BeforeHook: ReflectableDecorator<`/${string}`> =
  * @see {@link BeforeHook} for pre-authentication hooks
  * @see {@link Hook} to mark class as hook provider
  */
-export const AfterHook: ReflectableDecorator<`/${string}`> =
-	Reflector.createDecorator<`/${string}`>();
+export const AfterHook = Reflector.createDecorator<HookPaths>() as HookDecorator;
 
 /**
  * **Hook provider marker** - Enable automatic hook discovery
@@ -285,6 +1158,9 @@ export const AfterHook: ReflectableDecorator<`/${string}`> =
  * - Full dependency injection support
  * - Multiple hooks per class
  * - Type-safe hook methods
+ * - Scoped to a named instance with `@Hook('admin')` (unnamed hooks use the default instance)
+ * - Request-scoped and transient providers are resolved for each auth request, in the
+ *   request's Nest context (`ctx.contextId`)
  *
  * @example
  * ```typescript
@@ -320,4 +1196,35 @@ export const AfterHook: ReflectableDecorator<`/${string}`> =
  * @see {@link BeforeHook} for pre-authentication hooks
  * @see {@link AfterHook} for post-authentication hooks
  */
-export const Hook: ReflectableDecorator<boolean> = Reflector.createDecorator<boolean>();
+export const Hook: ReflectableDecorator<string | boolean> = Reflector.createDecorator<
+	string | boolean
+>();
+
+/**
+ * **Hook priority** - Order hooks across providers
+ *
+ * Hooks with a higher priority run first (default: `0`); equal priorities run in
+ * registration order. Apply to a `@Hook()` class to set the default of all its hooks,
+ * or to a method to override it. `hooks.before` / `hooks.after` configured in
+ * `betterAuth()` run with priority `0`, ahead of decorated hooks of the same priority.
+ *
+ * @param priority - Higher values run first
+ * @example
+ * ```typescript
+ * @Hook()
+ * @HookPriority(100) // before every other hook
+ * @Injectable()
+ * export class RateLimitHooks {
+ *   @BeforeHook('/sign-in/*')
+ *   async limit(ctx: AuthHookContext) {}
+ *
+ *   @HookPriority(-100) // after every other hook
+ *   @AfterHook()
+ *   async audit(ctx: AuthHookContext) {}
+ * }
+ * ```
+ *
+ * @see {@link BeforeHook} for pre-authentication hooks
+ * @see {@link AfterHook} for post-authentication hooks
+ */
+export const HookPriority: ReflectableDecorator<number> = Reflector.createDecorator<number>();
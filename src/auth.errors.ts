@@ -0,0 +1,38 @@
+/**
+ * **Error codes** - Codes used by `AuthGuard` when rejecting requests
+ *
+ * Exposed as the `error` field of `AuthFilter` responses, so clients can route users
+ * to the right remediation screen (re-authentication, organization picker, etc.).
+ *
+ * @example
+ * ```typescript
+ * // SPA error handling
+ * if (response.error === AUTH_ERROR_CODES.SESSION_NOT_FRESH) {
+ *   return showPasswordPrompt();
+ * }
+ * ```
+ *
+ * @see {@link AuthFilter} for the error response format
+ */
+export const AUTH_ERROR_CODES = {
+	INSUFFICIENT_ROLE: 'INSUFFICIENT_ROLE',
+	INSUFFICIENT_PERMISSIONS: 'INSUFFICIENT_PERMISSIONS',
+	NO_ACTIVE_ORGANIZATION: 'NO_ACTIVE_ORGANIZATION',
+	NOT_ORGANIZATION_MEMBER: 'NOT_ORGANIZATION_MEMBER',
+	INSUFFICIENT_ORGANIZATION_ROLE: 'INSUFFICIENT_ORGANIZATION_ROLE',
+	SESSION_NOT_FRESH: 'SESSION_NOT_FRESH',
+	EMAIL_NOT_VERIFIED: 'EMAIL_NOT_VERIFIED',
+	TWO_FACTOR_REQUIRED: 'TWO_FACTOR_REQUIRED',
+	USER_BANNED: 'USER_BANNED',
+	ANONYMOUS_USER_NOT_ALLOWED: 'ANONYMOUS_USER_NOT_ALLOWED',
+	INVALID_API_KEY: 'INVALID_API_KEY',
+	INSUFFICIENT_API_KEY_SCOPES: 'INSUFFICIENT_API_KEY_SCOPES',
+	ACTION_NOT_ALLOWED: 'ACTION_NOT_ALLOWED',
+	NOT_RESOURCE_OWNER: 'NOT_RESOURCE_OWNER',
+	IMPERSONATION_NOT_ALLOWED: 'IMPERSONATION_NOT_ALLOWED',
+} as const;
+
+/**
+ * **Error code** - Union of all `AUTH_ERROR_CODES` values
+ */
+export type AuthErrorCode = (typeof AUTH_ERROR_CODES)[keyof typeof AUTH_ERROR_CODES];
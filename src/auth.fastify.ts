@@ -0,0 +1,92 @@
+import type { ModuleRef } from '@nestjs/core';
+import type { preHandlerAsyncHookHandler } from 'fastify';
+import type { AbilityFactory } from './auth.ability';
+import type { AuthModuleConfig, AuthRouteConfig } from './types';
+
+import { Reflector } from '@nestjs/core';
+import { ExecutionContextHost } from '@nestjs/core/helpers/execution-context-host';
+
+import { APIError } from 'better-auth/api';
+
+import { Optional, Public } from './auth.decorators';
+import { AuthFilter } from './auth.filter';
+import { AuthGuard } from './auth.guard';
+
+/** Stand-in controller for routes registered directly on Fastify */
+class FastifyRoute {}
+
+/**
+ * Stand-in route handler carrying the `@Public()` / `@Optional()` metadata of a route config
+ */
+function createRouteHandler(config: AuthRouteConfig): () => void {
+	const handler = () => undefined;
+	if (config.public) Public(true)(handler);
+	if (config.optional) Optional(true)(handler);
+	return handler;
+}
+
+const ROUTE_HANDLERS = {
+	protected: createRouteHandler({}),
+	public: createRouteHandler({ public: true }),
+	optional: createRouteHandler({ optional: true }),
+};
+
+/**
+ * **Fastify preHandler** - `AuthGuard` for routes registered directly on Fastify
+ *
+ * Runs the same session resolution as `AuthGuard` (bearer tokens, JWT mode, session cache,
+ * account policies), populates `request.session` / `request.user` and builds
+ * `request.ability` when an `AbilityFactory` is given. Rejections are sent
+ * in the `AuthFilter` format. Route `config.auth` mirrors the guard decorators:
+ * - `{ public: true }` - skip authentication (`@Public()`)
+ * - `{ optional: true }` - attach the session when present (`@Optional()`)
+ *
+ * `AuthModule` registers it as `fastify.authenticate`; create one directly for Fastify
+ * instances outside the Nest application.
+ *
+ * @param options - Module configuration
+ * @param abilityFactory - Ability factory backing `request.ability` (optional)
+ * @param moduleRef - Module reference used by `AuthGuard` (optional)
+ * @returns Async preHandler hook
+ *
+ * @example
+ * ```typescript
+ * const fastify = app.getHttpAdapter().getInstance();
+ *
+ * fastify.post('/webhooks/billing', { preHandler: fastify.authenticate }, async request => {
+ *   return handleWebhook(request.user!.id, request.body);
+ * });
+ *
+ * fastify.get('/legacy/feed', {
+ *   preHandler: fastify.authenticate,
+ *   config: { auth: { optional: true } },
+ * }, async request => getFeed(request.user?.id));
+ * ```
+ */
+export function createAuthPreHandler(
+	options: AuthModuleConfig,
+	abilityFactory?: AbilityFactory,
+	moduleRef?: ModuleRef,
+): preHandlerAsyncHookHandler {
+	const guard = new AuthGuard(new Reflector(), options, abilityFactory, moduleRef);
+	const filter = new AuthFilter();
+
+	return async function authenticate(request, reply) {
+		const config = request.routeOptions.config.auth ?? {};
+		const handler = config.public
+			? ROUTE_HANDLERS.public
+			: config.optional
+				? ROUTE_HANDLERS.optional
+				: ROUTE_HANDLERS.protected;
+		const context = new ExecutionContextHost([request, reply], FastifyRoute, handler);
+
+		try {
+			await guard.canActivate(context);
+		} catch (error) {
+			if (!(error instanceof APIError)) throw error;
+
+			filter.catch(error, context);
+			return reply;
+		}
+	};
+}
@@ -15,6 +15,8 @@ import { APIError } from 'better-auth/api';
  * - Consistent error response format across all auth endpoints
  * - Automatic HTTP status code mapping
  * - Includes helpful error codes and messages
+ * - Forwards extra error details (e.g. `missingPermissions`)
+ * - Forwards error headers and sends redirects (e.g. `@LoginRedirect()`) without a body
  * - Request path tracking for debugging
  * - ISO 8601 timestamps
  *
@@ -61,13 +63,24 @@ export class AuthFilter implements ExceptionFilter {
 		const request = ctx.getRequest<FastifyRequest>();
 
 		const status = exception.statusCode;
-		const message = exception.body?.message;
-		const errorCode = exception.body?.code;
+		new Headers(exception.headers).forEach((value, key) => {
+			response.header(key, value);
+		});
+
+		// Redirects (e.g. login redirects for browser requests) carry no error body
+		if (status >= 300 && status < 400) {
+			response.status(status).send();
+			return;
+		}
+
+		// Extra body fields (e.g. `missingPermissions`) are forwarded as error details
+		const { message, code: errorCode, cause: _cause, ...details } = exception.body ?? {};
 
 		const errorResponse = {
 			statusCode: status,
 			message,
 			error: errorCode,
+			...details,
 			timestamp: new Date().toISOString(),
 			path: request.url,
 		};
@@ -0,0 +1,155 @@
+import type { FastifyRequest } from 'fastify';
+import type { GraphQLField, GraphQLFieldResolver, GraphQLObjectType, GraphQLSchema } from 'graphql';
+import type { AuthFieldOptions } from './types';
+
+import { AUTH_ERROR_CODES } from './auth.errors';
+import { getUserRoles, requireGraphql } from './auth.utils';
+
+type Graphql = typeof import('graphql');
+
+type GraphqlContext = {
+	req?: FastifyRequest;
+	request?: FastifyRequest;
+	reply?: { request?: FastifyRequest };
+};
+
+/**
+ * **Field extension key** - `extensions` entry written by `@AuthField()`
+ */
+export const AUTH_FIELD_EXTENSION = 'auth';
+
+/**
+ * **Directive definition** - SDL for the `@auth` directive (schema-first)
+ *
+ * `requires` lists roles, any of which grants access; omit it to only require a session.
+ *
+ * @example
+ * ```typescript
+ * GraphQLModule.forRoot({
+ *   typeDefs: [authDirectiveTypeDefs],
+ *   transformSchema: schema => authDirectiveTransformer(schema),
+ * });
+ * ```
+ */
+export const authDirectiveTypeDefs =
+	'directive @auth(requires: [String!]) on OBJECT | FIELD_DEFINITION';
+
+/**
+ * **Field authorization** - Enforce `@auth` directives and `@AuthField()` requirements
+ *
+ * Wraps the resolvers of every protected field (or every field of a protected type) to
+ * check the session `AuthGuard` attached to the GraphQL context request (`context.req`,
+ * or `context.reply.request` with Mercurius). Unauthorized fields resolve to `null` with
+ * a GraphQL error instead of failing the whole operation:
+ * - `UNAUTHENTICATED` - no session on the request
+ * - `FORBIDDEN` (`reason: 'INSUFFICIENT_ROLE'`) - the user has none of the required roles
+ *
+ * Field requirements override type requirements. Fields only see the session of guarded
+ * resolvers: `AuthGuard` skips `@Public()` operations entirely, so mark operations that
+ * return protected fields to anonymous callers `@Optional()` instead, or signed-in users
+ * get `UNAUTHENTICATED` too.
+ *
+ * @param schema - Executable schema (modified in place)
+ * @param directiveName - Schema-first directive name (default: `'auth'`)
+ * @returns The same schema
+ *
+ * @example
+ * ```typescript
+ * // Code-first
+ * GraphQLModule.forRoot<MercuriusDriverConfig>({
+ *   driver: MercuriusDriver,
+ *   autoSchemaFile: true,
+ *   context: (request: FastifyRequest) => ({ req: request }),
+ *   transformSchema: schema => authDirectiveTransformer(schema),
+ * });
+ *
+ * @ObjectType()
+ * class User {
+ *   @Field() name: string;
+ *
+ *   @AuthField({ roles: ['admin'] })
+ *   @Field({ nullable: true })
+ *   email?: string;
+ * }
+ *
+ * @Resolver(() => User)
+ * class UserResolver {
+ *   @Optional() // not @Public(): the session must still be resolved for `email`
+ *   @Query(() => User)
+ *   profile() {}
+ * }
+ * ```
+ */
+export function authDirectiveTransformer(
+	schema: GraphQLSchema,
+	directiveName = AUTH_FIELD_EXTENSION,
+): GraphQLSchema {
+	const graphql = requireGraphql('graphql');
+
+	for (const type of Object.values(schema.getTypeMap())) {
+		if (!graphql.isObjectType(type) || type.name.startsWith('__')) continue;
+
+		const typeOptions = readOptions(type, directiveName, graphql);
+		for (const field of Object.values(type.getFields())) {
+			const options = readOptions(field, directiveName, graphql) ?? typeOptions;
+			if (!options) continue;
+
+			const resolve = field.resolve ?? graphql.defaultFieldResolver;
+			const authorizedResolve: GraphQLFieldResolver<unknown, GraphqlContext> = (
+				source,
+				args,
+				context,
+				info,
+			) => {
+				authorizeField(options, context, graphql);
+				return resolve(source, args, context, info);
+			};
+			field.resolve = authorizedResolve as typeof field.resolve;
+		}
+	}
+
+	return schema;
+}
+
+/**
+ * Requirements from code-first `extensions` or a schema-first directive
+ */
+function readOptions(
+	target: GraphQLObjectType | GraphQLField<unknown, unknown>,
+	directiveName: string,
+	graphql: Graphql,
+): AuthFieldOptions | undefined {
+	const extension = target.extensions?.[AUTH_FIELD_EXTENSION];
+	if (extension) return extension as AuthFieldOptions;
+
+	const directive = target.astNode?.directives?.find(node => node.name.value === directiveName);
+	if (!directive) return undefined;
+
+	const requires = directive.arguments?.find(argument => argument.name.value === 'requires');
+	const roles = requires ? graphql.valueFromASTUntyped(requires.value) : undefined;
+	return { roles: roles == null ? undefined : ([] as string[]).concat(roles as string[]) };
+}
+
+function authorizeField(
+	options: AuthFieldOptions,
+	context: GraphqlContext,
+	graphql: Graphql,
+): void {
+	const request = context?.req ?? context?.request ?? context?.reply?.request;
+	const session = request?.session;
+
+	if (!session) {
+		throw new graphql.GraphQLError('Authentication required to access this field', {
+			extensions: { code: 'UNAUTHENTICATED' },
+		});
+	}
+
+	if (options.roles?.length) {
+		const userRoles = getUserRoles(session.user);
+		if (!options.roles.some(role => userRoles.includes(role))) {
+			throw new graphql.GraphQLError('Insufficient role to access this field', {
+				extensions: { code: 'FORBIDDEN', reason: AUTH_ERROR_CODES.INSUFFICIENT_ROLE },
+			});
+		}
+	}
+}
@@ -1,15 +1,111 @@
 import type { CanActivate, ExecutionContext } from '@nestjs/common';
-import type { AuthModuleConfig } from './types';
+import type { GqlContextType } from '@nestjs/graphql';
+import type { Auth } from 'better-auth';
+import type { FastifyRequest } from 'fastify';
+import type {
+	AbilityRequirement,
+	AuthApiKey,
+	AuthMethod,
+	AuthModuleConfig,
+	FreshSessionRequirement,
+	JwtSession,
+	OrganizationMember,
+	OrganizationRequirement,
+	OwnershipRequirement,
+	PermissionRequirement,
+	PermissionStatements,
+	User,
+	UserSession,
+} from './types';
 
-import { Inject, Injectable } from '@nestjs/common';
-import { Reflector } from '@nestjs/core';
+import { Inject, Injectable, Logger, Optional as OptionalDependency } from '@nestjs/common';
+import { ModuleRef, Reflector } from '@nestjs/core';
 
 import { APIError } from 'better-auth/api';
 import { fromNodeHeaders } from 'better-auth/node';
 
-import { Optional, Public } from './auth.decorators';
-import { AUTH_MODULE_OPTIONS } from './auth.symbols';
-import { extractRequestFromExecutionContext } from './auth.utils';
+import { AbilityFactory } from './auth.ability';
+import { getSessionCache } from './auth.cache';
+import {
+	AllowAnonymous,
+	AllowBanned,
+	ApiKeyScopes,
+	AuthMethods,
+	Can,
+	DenyImpersonation,
+	LoginRedirect,
+	Optional,
+	OwnedBy,
+	Public,
+	RequireFreshSession,
+	RequireOrganization,
+	RequirePermissions,
+	RequireTwoFactor,
+	RequireVerifiedEmail,
+	Roles,
+	StatefulSession,
+	UseAuth,
+} from './auth.decorators';
+import { AUTH_ERROR_CODES } from './auth.errors';
+import { getJwtVerifier, readJwt } from './auth.jwt';
+import { getOwnershipResolvers } from './auth.ownership';
+import { readRpcSession } from './auth.rpc';
+import { AUTH_MODULE_OPTIONS, getAuthOptionsToken } from './auth.symbols';
+import {
+	buildLoginRedirect,
+	extractRequestFromExecutionContext,
+	getImpersonator,
+	getTrustedOrigins,
+	getUserRoles,
+	parseRoles,
+} from './auth.utils';
+import { getWsSession, type WsClient } from './auth.ws';
+
+type PermissionCheck = (ctx: {
+	body: { permissions: PermissionStatements; userId?: string };
+	headers?: Headers;
+}) => Promise<{ success: boolean }>;
+
+type PermissionApi = {
+	userHasPermission?: PermissionCheck;
+	hasPermission?: PermissionCheck;
+};
+
+type ApiKeyApi = {
+	verifyApiKey?: (ctx: {
+		body: { key: string };
+	}) => Promise<{ valid: boolean; key: AuthApiKey | null }>;
+};
+
+type OrganizationApi = {
+	getActiveMember?: (ctx: { headers: Headers }) => Promise<OrganizationMember | null>;
+};
+
+type PolicyDecorator = [Parameters<Reflector['getAllAndOverride']>[0], string];
+
+/** Policies that need user or session fields microservice envelopes do not carry */
+const RPC_UNSUPPORTED_POLICIES: PolicyDecorator[] = [
+	[RequireVerifiedEmail, '@RequireVerifiedEmail()'],
+	[RequireTwoFactor, '@RequireTwoFactor()'],
+	[DenyImpersonation, '@DenyImpersonation()'],
+	[Roles, '@Roles()'],
+	[RequireOrganization, '@RequireOrganization()'],
+	[RequirePermissions, '@RequirePermissions()'],
+	[RequireFreshSession, '@RequireFreshSession()'],
+	[OwnedBy, '@OwnedBy()'],
+	[Can, '@Can()'],
+];
+
+/** Policies that need a session, which API key requests do not have */
+const API_KEY_UNSUPPORTED_POLICIES: PolicyDecorator[] = [
+	[RequireOrganization, '@RequireOrganization()'],
+	[RequirePermissions, '@RequirePermissions()'],
+	[RequireFreshSession, '@RequireFreshSession()'],
+	[Can, '@Can()'],
+];
+
+/** Session lookups per auth instance and request, shared by every guard run on the same request */
+const sessionLookups = new WeakMap<Auth, WeakMap<FastifyRequest, Promise<UserSession | null>>>();
 
 /**
  * **Authentication guard** - Protect routes with Better Auth sessions
@@ -21,6 +117,22 @@ import { extractRequestFromExecutionContext } from './auth.utils';
  * - 🚀 **Automatic global protection** (disable with `disableGlobalAuthGuard: true`)
  * - ⚡ **Performance optimized** - early exits for public routes
  * - 🎯 **Flexible** - use `@Public()` and `@Optional()` decorators
+ * - 📱 **Bearer tokens** - cookie and `Authorization: Bearer` sessions (`bearer: true`)
+ * - 🪪 **Stateless JWT** - local JWKS verification without database lookups (`jwt: true`)
+ * - 🗃️ **Session caching** - one lookup per request, optional cross-request cache (`sessionCache`)
+ * - 🗝️ **API keys** - server-to-server auth via `@AuthMethods('api-key')`
+ * - ✉️ **Account policies** - banned and anonymous users, `@RequireVerifiedEmail()` and
+ *   `@RequireTwoFactor()`
+ * - 🕵️ **Impersonation aware** - logs impersonated requests, blocks them with `@DenyImpersonation()`
+ * - 🛡️ **Role-based** - restrict routes with `@Roles()`
+ * - 🔑 **Permission-based** - Better Auth access control via `@RequirePermissions()`
+ * - 🏢 **Multi-tenant** - active organization membership via `@RequireOrganization()`
+ * - ⏱️ **Step-up auth** - reject stale sessions with `@RequireFreshSession()`
+ * - 👤 **Ownership** - restrict records to their owner with `@OwnedBy()`
+ * - 📜 **Policy-based** - `AbilityFactory` abilities via `@Can()` and `@Ability()`
+ * - 🧩 **Multiple instances** - validate routes against named instances with `@UseAuth()`
+ * - 🔌 **Realtime & microservices** - `WsSessionManager` sessions for gateways, signed
+ *   session envelopes for RPC messages (`RpcSessionInterceptor`)
  * - 📊 **Observability ready** - attaches `req.user` and `req.session`
  * - 🔒 **Type-safe** - full TypeScript support
  *
@@ -76,36 +188,93 @@ import { extractRequestFromExecutionContext } from './auth.utils';
  * ```
  *
  * @throws {APIError} UNAUTHORIZED when authentication required but missing
+ * @throws {APIError} FORBIDDEN when the user lacks a required role, permission or membership
  * @see {@link Public} to skip authentication
  * @see {@link Optional} for optional authentication
+ * @see {@link RequireVerifiedEmail} and {@link RequireTwoFactor} for account policies
+ * @see {@link AllowBanned} and {@link AllowAnonymous} for banned and anonymous users
+ * @see {@link Roles} for role-based authorization
+ * @see {@link RequirePermissions} for permission-based authorization
+ * @see {@link RequireOrganization} for organization-scoped routes
+ * @see {@link RequireFreshSession} for step-up authentication
+ * @see {@link OwnedBy} for resource ownership checks
+ * @see {@link Can} for policy-based authorization
+ * @see {@link AuthMethods} to accept API keys
  * @see {@link Session} to extract user data
  */
 @Injectable()
 export class AuthGuard implements CanActivate {
+	private readonly logger = new Logger(AuthGuard.name);
+	private readonly instanceGuards = new Map<string, AuthGuard>();
+	private instanceName?: string;
+
 	constructor(
 		@Inject(Reflector)
 		private readonly reflector: Reflector,
 		@Inject(AUTH_MODULE_OPTIONS)
 		private readonly options: AuthModuleConfig,
+		@OptionalDependency()
+		@Inject(AbilityFactory)
+		private readonly abilityFactory?: AbilityFactory,
+		@OptionalDependency()
+		@Inject(ModuleRef)
+		private readonly moduleRef?: ModuleRef,
 	) {}
 
 	/**
 	 * **Validates authentication** - Smart session validation with performance optimization
 	 *
 	 * Execution flow:
+	 * 0. Delegate to the named instance selected with `@UseAuth()`
 	 * 1. Check `@Public()` → early exit (no session lookup)
-	 * 2. Fetch session from Better Auth
-	 * 3. Enrich request with `session` and `user` properties
-	 * 4. Check `@Optional()` → allow access even without session
-	 * 5. Enforce auth for protected routes
+	 *    - Microservice messages are authenticated from their signed session envelope only
+	 * 2. Authenticate with an API key on `@AuthMethods('api-key')` routes (the key owner's
+	 *    account policies, `@Roles()` and `@OwnedBy()` apply)
+	 * 3. Fetch session from Better Auth, memoized per request and cached with `sessionCache`
+	 *    (or verify a JWT locally in JWT mode)
+	 * 4. Enrich request with `session` and `user` properties, tag impersonated requests
+	 * 5. Check `@Optional()` → allow access even without session
+	 * 6. Enforce auth for protected routes (browsers are redirected with `@LoginRedirect()`)
+	 * 7. Check banned and anonymous users (`@AllowBanned()`, `@AllowAnonymous()` or module
+	 *    defaults), `@RequireVerifiedEmail()` (or module default), `@RequireTwoFactor()`
+	 *    and `@DenyImpersonation()`
+	 * 8. Check `@Roles()` against the user's admin plugin role
+	 * 9. Check `@RequireOrganization()` membership in the active organization
+	 * 10. Check `@RequirePermissions()` through Better Auth access control
+	 * 11. Check `@RequireFreshSession()` against the session creation time
+	 * 12. Check `@OwnedBy()` against the resource owner
+	 * 13. Build abilities (`abilityFactory`) and check `@Can()`
 	 *
 	 * **Performance:** Public routes skip session lookup completely!
 	 *
 	 * @param context - NestJS execution context (HTTP, GraphQL, WebSocket, RPC)
 	 * @returns `true` if user is authorized or route is public/optional
 	 * @throws {APIError} UNAUTHORIZED when auth required but session missing
+	 * @throws {APIError} FOUND (302 to the login page) instead, for HTML requests with a login redirect
+	 * @throws {APIError} UNAUTHORIZED when the API key is invalid
+	 * @throws {APIError} FORBIDDEN when the API key lacks required scopes
+	 * @throws {APIError} FORBIDDEN (`USER_BANNED`, `ANONYMOUS_USER_NOT_ALLOWED`) for banned or
+	 * anonymous users
+	 * @throws {APIError} FORBIDDEN when the email is not verified or two-factor is disabled
+	 * @throws {APIError} FORBIDDEN (`IMPERSONATION_NOT_ALLOWED`) on `@DenyImpersonation()` routes
+	 * @throws {APIError} FORBIDDEN when the user has none of the required roles
+	 * @throws {APIError} FORBIDDEN when the active organization membership is missing
+	 * @throws {APIError} FORBIDDEN when required permissions are missing
+	 * @throws {APIError} FORBIDDEN (`SESSION_NOT_FRESH`) when the session is too old
+	 * @throws {APIError} FORBIDDEN (`NOT_RESOURCE_OWNER`) when the user does not own the resource
+	 * @throws {APIError} FORBIDDEN (`ACTION_NOT_ALLOWED`) when the `@Can()` ability check fails
+	 * @throws {Error} when a microservice handler uses a policy RPC sessions cannot satisfy
 	 */
 	async canActivate(context: ExecutionContext): Promise<boolean> {
+		// Validate against the named instance selected with `@UseAuth()`
+		const instance = this.reflector.getAllAndOverride<string | object | undefined>(UseAuth, [
+			context.getHandler(),
+			context.getClass(),
+		]);
+		if (typeof instance === 'string' && instance !== this.instanceName) {
+			return this.getInstanceGuard(instance).canActivate(context);
+		}
+
 		const request = await extractRequestFromExecutionContext(context);
 
 		// Check if route is marked as public (early return to avoid unnecessary session call)
@@ -115,14 +284,39 @@ export class AuthGuard implements CanActivate {
 		]);
 		if (isPublic) return true;
 
+		// Microservice messages carry a signed session envelope instead of credentials
+		if (context.getType() === 'rpc') {
+			return this.authenticateRpc(request, context);
+		}
+
+		// Authenticate with an API key when the route accepts one and it is provided
+		const methods = this.getAuthMethods(context);
+		const apiKey = methods.includes('api-key') ? this.readApiKey(request) : undefined;
+		if (apiKey) {
+			await this.authenticateApiKey(apiKey, request, context);
+			return true;
+		}
+
+		if (!methods.includes('session')) {
+			const isOptional = this.reflector.getAllAndOverride(Optional, [
+				context.getHandler(),
+				context.getClass(),
+			]);
+			if (isOptional) return true;
+
+			throw new APIError('UNAUTHORIZED', {
+				message: 'API key required to access this resource',
+			});
+		}
+
 		// Get session from Better Auth (only when needed)
-		const session = await this.options.auth.api.getSession({
-			headers: fromNodeHeaders(request.headers),
-		});
+		const headers = this.getSessionHeaders(request);
+		const session = await this.resolveSession(request, headers, context);
 
 		// Attach session and user to request for easy access
 		request.session = session;
 		request.user = session?.user ?? null; // useful for observability tools like Sentry
+		this.tagImpersonation(session, request);
 
 		// Check if route has optional authentication
 		const isOptional = this.reflector.getAllAndOverride(Optional, [
@@ -133,11 +327,665 @@ export class AuthGuard implements CanActivate {
 
 		// Require authentication for protected routes
 		if (!session) {
+			const location = await this.getLoginRedirect(context, request);
+			if (location) {
+				throw new APIError('FOUND', undefined, { Location: location });
+			}
+
 			throw new APIError('UNAUTHORIZED', {
 				message: 'Authentication required to access this resource',
 			});
 		}
 
+		// Enforce account policies and roles (route metadata overrides the module defaults)
+		this.checkUserPolicies(session.user, context);
+
+		const denyImpersonation = this.reflector.getAllAndOverride<boolean | undefined>(
+			DenyImpersonation,
+			[context.getHandler(), context.getClass()],
+		);
+		if (denyImpersonation && getImpersonator(session)) {
+			throw new APIError('FORBIDDEN', {
+				message: 'This action cannot be performed while impersonating a user',
+				code: AUTH_ERROR_CODES.IMPERSONATION_NOT_ALLOWED,
+			});
+		}
+
+		// Enforce active organization membership
+		const organization = this.reflector.getAllAndOverride<OrganizationRequirement | undefined>(
+			RequireOrganization,
+			[context.getHandler(), context.getClass()],
+		);
+		if (organization) {
+			await this.checkOrganization(organization, session, request, headers);
+		}
+
+		// Enforce Better Auth access control permissions
+		const requirement = this.reflector.getAllAndOverride<PermissionRequirement | undefined>(
+			RequirePermissions,
+			[context.getHandler(), context.getClass()],
+		);
+		if (requirement) {
+			await this.checkPermissions(requirement, session.user.id, headers);
+		}
+
+		// Enforce step-up authentication for sensitive routes
+		const freshness = this.reflector.getAllAndOverride<FreshSessionRequirement | undefined>(
+			RequireFreshSession,
+			[context.getHandler(), context.getClass()],
+		);
+		if (freshness) {
+			this.checkFreshSession(freshness, session);
+		}
+
+		// Restrict the route to the owner of the requested resource
+		const ownership = this.reflector.getAllAndOverride<OwnershipRequirement | undefined>(OwnedBy, [
+			context.getHandler(),
+			context.getClass(),
+		]);
+		if (ownership) {
+			await this.checkOwnership(ownership, session.user, request);
+		}
+
+		// Build the user's abilities and enforce policy-based authorization
+		const ability = this.reflector.getAllAndOverride<AbilityRequirement | undefined>(Can, [
+			context.getHandler(),
+			context.getClass(),
+		]);
+		if (ability || this.abilityFactory) {
+			await this.checkAbility(ability, session, request);
+		}
+
 		return true;
 	}
+
+	/**
+	 * Enforce the policies that only need the user: banned and anonymous users, verified
+	 * email, two-factor and `@Roles()`. Applied to session users and API key owners.
+	 */
+	private checkUserPolicies(user: User, context: ExecutionContext): void {
+		const allowBanned =
+			this.reflector.getAllAndOverride<boolean | undefined>(AllowBanned, [
+				context.getHandler(),
+				context.getClass(),
+			]) ?? this.options.allowBannedUsers;
+		if (!allowBanned) {
+			this.checkBanned(user);
+		}
+
+		const allowAnonymous =
+			this.reflector.getAllAndOverride<boolean | undefined>(AllowAnonymous, [
+				context.getHandler(),
+				context.getClass(),
+			]) ?? this.options.allowAnonymous;
+		if (!allowAnonymous && (user as { isAnonymous?: boolean | null }).isAnonymous) {
+			throw new APIError('FORBIDDEN', {
+				message: 'An account is required to access this resource',
+				code: AUTH_ERROR_CODES.ANONYMOUS_USER_NOT_ALLOWED,
+			});
+		}
+
+		const requireVerifiedEmail =
+			this.reflector.getAllAndOverride<boolean | undefined>(RequireVerifiedEmail, [
+				context.getHandler(),
+				context.getClass(),
+			]) ?? this.options.requireVerifiedEmail;
+		if (requireVerifiedEmail && !user.emailVerified) {
+			throw new APIError('FORBIDDEN', {
+				message: 'Email verification is required to access this resource',
+				code: AUTH_ERROR_CODES.EMAIL_NOT_VERIFIED,
+			});
+		}
+
+		const requireTwoFactor = this.reflector.getAllAndOverride<boolean | undefined>(
+			RequireTwoFactor,
+			[context.getHandler(), context.getClass()],
+		);
+		if (requireTwoFactor && !(user as { twoFactorEnabled?: boolean }).twoFactorEnabled) {
+			throw new APIError('FORBIDDEN', {
+				message: 'Two-factor authentication must be enabled to access this resource',
+				code: AUTH_ERROR_CODES.TWO_FACTOR_REQUIRED,
+			});
+		}
+
+		// Enforce role requirements (any of the listed roles grants access)
+		const roles = this.reflector.getAllAndOverride<string[] | undefined>(Roles, [
+			context.getHandler(),
+			context.getClass(),
+		]);
+		if (roles?.length) {
+			const userRoles = getUserRoles(user);
+			if (!roles.some(role => userRoles.includes(role))) {
+				throw new APIError('FORBIDDEN', {
+					message: 'Insufficient role to access this resource',
+					code: AUTH_ERROR_CODES.INSUFFICIENT_ROLE,
+				});
+			}
+		}
+	}
+
+	/**
+	 * Resolve the owner of the resource referenced by the route param and compare it with
+	 * the user. Users with a bypass role (admins by default) skip the check.
+	 */
+	private async checkOwnership(
+		{ param, resolver, bypassRoles = ['admin'] }: OwnershipRequirement,
+		user: User,
+		request: FastifyRequest,
+	): Promise<void> {
+		if (getUserRoles(user).some(role => bypassRoles.includes(role))) return;
+
+		const resourceId = (request.params as Record<string, string> | undefined)?.[param];
+		if (resourceId === undefined) {
+			throw new Error(`@OwnedBy() route parameter '${param}' not found`);
+		}
+
+		const instance = getOwnershipResolvers(this.options.auth).get(resolver);
+		if (!instance) {
+			throw new Error(
+				`Ownership resolver ${resolver.name} is not registered. Decorate it with @OwnerResolver() and add it to a module's providers.`,
+			);
+		}
+
+		const ownerId = await instance.resolveOwner(resourceId, request);
+		if (!ownerId || ownerId !== user.id) {
+			throw new APIError('FORBIDDEN', {
+				code: AUTH_ERROR_CODES.NOT_RESOURCE_OWNER,
+				message: 'You do not own this resource',
+			});
+		}
+	}
+
+	/**
+	 * Build the user's abilities once per request (cached on `request.ability` for
+	 * `@Ability()` and later guard runs) and check the `@Can()` requirement.
+	 */
+	private async checkAbility(
+		requirement: AbilityRequirement | undefined,
+		session: UserSession | JwtSession,
+		request: FastifyRequest,
+	): Promise<void> {
+		if (!this.abilityFactory) {
+			throw new Error(
+				"@Can() requires an ability factory. Register one with 'AuthModule.forRoot({ abilityFactory })'.",
+			);
+		}
+
+		request.ability ??= await this.abilityFactory.createForUser(session);
+		if (!requirement) return;
+
+		const { action, subject, field } = requirement;
+		if (!request.ability.can(action, subject, field)) {
+			throw new APIError('FORBIDDEN', {
+				code: AUTH_ERROR_CODES.ACTION_NOT_ALLOWED,
+				message: `Not allowed to ${action} ${subject}`,
+				action,
+				subject,
+			});
+		}
+	}
+
+	/**
+	 * Login page redirect for unauthenticated browser requests (`Accept: text/html`) on
+	 * routes with `@LoginRedirect()` or a module-level `loginRedirect`.
+	 */
+	private async getLoginRedirect(
+		context: ExecutionContext,
+		request: FastifyRequest,
+	): Promise<string | undefined> {
+		const loginURL =
+			this.reflector.getAllAndOverride<string | false | undefined>(LoginRedirect, [
+				context.getHandler(),
+				context.getClass(),
+			]) ?? this.options.loginRedirect;
+		if (!loginURL || !request.headers?.accept?.includes('text/html')) return undefined;
+
+		const webRequest = new Request(`${request.protocol}://${request.host}${request.url}`, {
+			headers: fromNodeHeaders(request.headers),
+		});
+		const trustedOrigins = await getTrustedOrigins(this.options.auth, webRequest);
+		return buildLoginRedirect(loginURL, request, trustedOrigins);
+	}
+
+	/**
+	 * Reject users banned by the admin plugin, unless the ban has expired.
+	 */
+	private checkBanned(user: User): void {
+		const { banned, banReason, banExpires } = user as {
+			banned?: boolean | null;
+			banReason?: string | null;
+			banExpires?: Date | string | null;
+		};
+		if (!banned) return;
+
+		const expiresAt = banExpires ? new Date(banExpires) : null;
+		if (expiresAt && expiresAt.getTime() <= Date.now()) return;
+
+		throw new APIError('FORBIDDEN', {
+			message: 'Your account has been banned',
+			code: AUTH_ERROR_CODES.USER_BANNED,
+			banReason: banReason ?? null,
+			banExpires: expiresAt?.toISOString() ?? null,
+		});
+	}
+
+	/**
+	 * Tag impersonated requests (admin plugin) once per request: exposes the admin on
+	 * `request.impersonatedBy`, binds it to the request logger and records an audit log entry.
+	 */
+	private tagImpersonation(
+		session: UserSession | JwtSession | null,
+		request: FastifyRequest,
+	): void {
+		const impersonatedBy = getImpersonator(session);
+		if (!session || !impersonatedBy || request.impersonatedBy) return;
+
+		request.impersonatedBy = impersonatedBy;
+		if (request.log) {
+			request.log = request.log.child({ impersonatedBy, userId: session.user.id });
+		}
+
+		this.logger.log(
+			`[impersonation] ${request.method} ${request.url} - user ${session.user.id} impersonated by ${impersonatedBy}`,
+		);
+	}
+
+	/**
+	 * Guard bound to a named instance (`AuthModule.forRoot({ name })`), created once per name.
+	 */
+	private getInstanceGuard(name: string): AuthGuard {
+		let guard = this.instanceGuards.get(name);
+		if (guard) return guard;
+
+		let options: AuthModuleConfig | undefined;
+		try {
+			options = this.moduleRef?.get<AuthModuleConfig>(getAuthOptionsToken(name), { strict: false });
+		} catch {
+			options = undefined;
+		}
+		if (!options) {
+			throw new Error(
+				`@UseAuth('${name}') requires an auth instance registered with AuthModule.forRoot({ name: '${name}' })`,
+			);
+		}
+
+		guard = new AuthGuard(this.reflector, options, this.abilityFactory, this.moduleRef);
+		guard.instanceName = name;
+		this.instanceGuards.set(name, guard);
+		return guard;
+	}
+
+	/**
+	 * Authenticate a microservice message from its signed session envelope. The verified
+	 * session is kept by `auth.rpc` (read with `getRpcSession()`), never written to the
+	 * payload, which the sender controls.
+	 *
+	 * Envelopes carry only the caller's ids and expiry: routes whose policies need other
+	 * user or session fields are rejected as misconfigured, and the ban, anonymous and
+	 * verified email module defaults are enforced by the calling service.
+	 */
+	private authenticateRpc(data: unknown, context: ExecutionContext): boolean {
+		const unsupported = this.findPolicy(RPC_UNSUPPORTED_POLICIES, context);
+		if (unsupported) {
+			throw new Error(
+				`${unsupported} is not supported on microservice handlers: RPC sessions only carry the user id, session id and expiry`,
+			);
+		}
+
+		const session = readRpcSession(data, this.options);
+		if (session) return true;
+
+		const isOptional = this.reflector.getAllAndOverride(Optional, [
+			context.getHandler(),
+			context.getClass(),
+		]);
+		if (isOptional) return true;
+
+		throw new APIError('UNAUTHORIZED', {
+			message: 'Authentication required to access this resource',
+		});
+	}
+
+	/**
+	 * First policy of the table declared on the route, by decorator name
+	 */
+	private findPolicy(policies: PolicyDecorator[], context: ExecutionContext): string | undefined {
+		return policies.find(([decorator]) =>
+			this.reflector.getAllAndOverride(decorator, [context.getHandler(), context.getClass()]),
+		)?.[1];
+	}
+
+	/**
+	 * Resolve the session - uses the session cached by `WsSessionManager` for gateway
+	 * messages, verifies JWT plugin tokens locally in JWT mode (unless the route requires
+	 * `@StatefulSession()` or `@RequireFreshSession()`), otherwise asks Better Auth.
+	 */
+	private async resolveSession(
+		request: FastifyRequest,
+		headers: Headers,
+		context: ExecutionContext,
+	): Promise<UserSession | JwtSession | null> {
+		// Gateway connections authenticated by WsSessionManager keep their session cached,
+		// sessions of another auth instance are looked up again against this one
+		if (context.getType() === 'ws') {
+			const wsSession = getWsSession(context.switchToWs().getClient<WsClient>(), this.options.auth);
+			if (wsSession) return wsSession;
+		}
+
+		const jwt = this.options.jwt ? readJwt(headers) : undefined;
+		// JWTs do not carry the session creation time, so step-up routes look the session up
+		const isStateful =
+			this.reflector.getAllAndOverride(StatefulSession, [
+				context.getHandler(),
+				context.getClass(),
+			]) ||
+			this.reflector.getAllAndOverride(RequireFreshSession, [
+				context.getHandler(),
+				context.getClass(),
+			]);
+
+		if (jwt && !isStateful) {
+			const options = typeof this.options.jwt === 'object' ? this.options.jwt : undefined;
+			const verifier = getJwtVerifier(this.options.auth, options);
+			try {
+				return await verifier.verify(jwt);
+			} catch {
+				// Invalid, expired or unverifiable tokens are treated as unauthenticated
+				return null;
+			}
+		}
+
+		return this.lookupSession(request, headers, context);
+	}
+
+	/**
+	 * Stateful session lookup, memoized per auth instance and HTTP request (the guard may run
+	 * several times, e.g. globally and via `@UseGuards()`, or once per GraphQL field) and
+	 * served from the cross-request session cache when `sessionCache` is enabled.
+	 *
+	 * Gateway and microservice messages are not memoized: gateway messages share their
+	 * connection's handshake, so every message re-checks the session and revoked sessions
+	 * are rejected.
+	 */
+	private lookupSession(
+		request: FastifyRequest,
+		headers: Headers,
+		context: ExecutionContext,
+	): Promise<UserSession | null> {
+		const load = () => this.options.auth.api.getSession({ headers });
+		const cache = getSessionCache(this.options);
+		const fetch = () => (cache ? cache.getSession(headers, load) : load());
+		const contextType = context.getType<GqlContextType>();
+		if (contextType !== 'http' && contextType !== 'graphql') return fetch();
+
+		let lookups = sessionLookups.get(this.options.auth);
+		if (!lookups) {
+			lookups = new WeakMap();
+			sessionLookups.set(this.options.auth, lookups);
+		}
+
+		let lookup = lookups.get(request);
+		if (!lookup) {
+			lookup = fetch();
+			// Failed lookups are not memoized so later guard runs can retry
+			lookup.catch(() => lookups.delete(request));
+			lookups.set(request, lookup);
+		}
+		return lookup;
+	}
+
+	/**
+	 * Headers forwarded to `getSession`. In bearer mode an `Authorization: Bearer` token
+	 * takes precedence over cookies, so bearer and cookie clients authenticate uniformly.
+	 */
+	private getSessionHeaders(request: FastifyRequest): Headers {
+		const headers = fromNodeHeaders(request.headers ?? {});
+		if (!this.options.bearer) return headers;
+
+		const [scheme, token] = headers.get('authorization')?.trim().split(/\s+/) ?? [];
+		if (scheme?.toLowerCase() === 'bearer' && token) {
+			// The bearer plugin appends the token as a session cookie - drop stale cookies
+			headers.set('authorization', `Bearer ${token}`);
+			headers.delete('cookie');
+		}
+
+		return headers;
+	}
+
+	/**
+	 * Credentials accepted by the route (`@AuthMethods()`), sessions by default.
+	 */
+	private getAuthMethods(context: ExecutionContext): AuthMethod[] {
+		const methods = this.reflector.getAllAndOverride<AuthMethod[] | undefined>(AuthMethods, [
+			context.getHandler(),
+			context.getClass(),
+		]);
+		return methods?.length ? methods : ['session'];
+	}
+
+	/**
+	 * Read the API key from the configured header (`x-api-key` by default).
+	 */
+	private readApiKey(request: FastifyRequest): string | undefined {
+		const header = (this.options.apiKeyHeader ?? 'x-api-key').toLowerCase();
+		const value = request.headers?.[header];
+		return (Array.isArray(value) ? value[0] : value) || undefined;
+	}
+
+	/**
+	 * Verify the API key through Better Auth's API key plugin, attach it to the
+	 * request and enforce `@ApiKeyScopes()`. The key owner is loaded to enforce the user
+	 * policies (account policies, `@Roles()`, `@OwnedBy()`); policies that need a session
+	 * are rejected as misconfigured.
+	 */
+	private async authenticateApiKey(
+		key: string,
+		request: FastifyRequest,
+		context: ExecutionContext,
+	): Promise<void> {
+		const api = this.options.auth.api as ApiKeyApi;
+		if (!api.verifyApiKey) {
+			throw new Error(
+				"@AuthMethods('api-key') requires the Better Auth API key plugin to be configured",
+			);
+		}
+
+		const unsupported = this.findPolicy(API_KEY_UNSUPPORTED_POLICIES, context);
+		if (unsupported) {
+			throw new Error(
+				`${unsupported} is not supported for API key requests: API keys carry no session. Remove 'api-key' from the route's @AuthMethods().`,
+			);
+		}
+
+		const result = await api.verifyApiKey({ body: { key } });
+		if (!result.valid || !result.key) {
+			throw new APIError('UNAUTHORIZED', {
+				message: 'Invalid API key',
+				code: AUTH_ERROR_CODES.INVALID_API_KEY,
+			});
+		}
+
+		request.apiKey = result.key;
+		request.session = null;
+		request.user = null;
+
+		const scopes = this.reflector.getAllAndOverride<string[] | undefined>(ApiKeyScopes, [
+			context.getHandler(),
+			context.getClass(),
+		]);
+		if (scopes?.length) {
+			// Scopes are '<action>:<resource>', checked against the key's permissions
+			const permissions = result.key.permissions ?? {};
+			const missingScopes = scopes.filter(scope => {
+				const [action, resource = ''] = scope.split(':');
+				return !permissions[resource]?.includes(action);
+			});
+
+			if (missingScopes.length > 0) {
+				throw new APIError('FORBIDDEN', {
+					message: 'API key is missing required scopes',
+					code: AUTH_ERROR_CODES.INSUFFICIENT_API_KEY_SCOPES,
+					missingScopes,
+				});
+			}
+		}
+
+		// Keys act on behalf of their owner: banned owners lose access, roles still apply
+		const owner = await this.getApiKeyOwner(result.key);
+		this.checkUserPolicies(owner, context);
+
+		const ownership = this.reflector.getAllAndOverride<OwnershipRequirement | undefined>(OwnedBy, [
+			context.getHandler(),
+			context.getClass(),
+		]);
+		if (ownership) {
+			await this.checkOwnership(ownership, owner, request);
+		}
+	}
+
+	/**
+	 * Load the user an API key belongs to - keys of deleted users are rejected
+	 */
+	private async getApiKeyOwner(key: AuthApiKey): Promise<User> {
+		const { internalAdapter } = await this.options.auth.$context;
+		const owner = await internalAdapter.findUserById(key.userId);
+		if (!owner) {
+			throw new APIError('UNAUTHORIZED', {
+				message: 'Invalid API key',
+				code: AUTH_ERROR_CODES.INVALID_API_KEY,
+			});
+		}
+		return owner as User;
+	}
+
+	/**
+	 * Verify `@RequireFreshSession()` - the session (and optional two-factor marker)
+	 * must be younger than `maxAge` seconds.
+	 */
+	private checkFreshSession(
+		{ maxAge, twoFactorField }: FreshSessionRequirement,
+		session: UserSession | JwtSession,
+	): void {
+		const isFresh = (value: unknown) => {
+			if (!(value instanceof Date) && typeof value !== 'string' && typeof value !== 'number') {
+				return false;
+			}
+			const timestamp = new Date(value).getTime();
+			return !Number.isNaN(timestamp) && Date.now() - timestamp <= maxAge * 1000;
+		};
+
+		const fields = session.session as Record<string, unknown>;
+		const fresh = isFresh(fields.createdAt) && (!twoFactorField || isFresh(fields[twoFactorField]));
+
+		if (!fresh) {
+			throw new APIError('FORBIDDEN', {
+				message: 'A recent sign-in is required to access this resource',
+				code: AUTH_ERROR_CODES.SESSION_NOT_FRESH,
+				maxAge,
+			});
+		}
+	}
+
+	/**
+	 * Verify `@RequireOrganization()` against the session's active organization.
+	 * Membership is loaded once per request and cached on `request.activeMember`.
+	 */
+	private async checkOrganization(
+		{ roles }: OrganizationRequirement,
+		session: UserSession | JwtSession,
+		request: FastifyRequest,
+		headers: Headers,
+	): Promise<void> {
+		const activeOrganizationId = (session.session as { activeOrganizationId?: string | null })
+			.activeOrganizationId;
+
+		if (!activeOrganizationId) {
+			throw new APIError('FORBIDDEN', {
+				message: 'An active organization is required to access this resource',
+				code: AUTH_ERROR_CODES.NO_ACTIVE_ORGANIZATION,
+			});
+		}
+
+		// `undefined` means not loaded yet, `null` means not a member
+		if (request.activeMember === undefined) {
+			const api = this.options.auth.api as OrganizationApi;
+			if (!api.getActiveMember) {
+				throw new Error(
+					'@RequireOrganization() requires the Better Auth organization plugin to be configured',
+				);
+			}
+			request.activeMember = await api.getActiveMember({ headers });
+		}
+
+		const member = request.activeMember;
+		if (!member) {
+			throw new APIError('FORBIDDEN', {
+				message: 'You are not a member of the active organization',
+				code: AUTH_ERROR_CODES.NOT_ORGANIZATION_MEMBER,
+			});
+		}
+
+		if (roles?.length) {
+			const memberRoles = parseRoles(member.role);
+			if (!roles.some(role => memberRoles.includes(role))) {
+				throw new APIError('FORBIDDEN', {
+					message: 'Insufficient organization role to access this resource',
+					code: AUTH_ERROR_CODES.INSUFFICIENT_ORGANIZATION_ROLE,
+				});
+			}
+		}
+	}
+
+	/**
+	 * Resolve `@RequirePermissions()` through the admin (`userHasPermission`) or
+	 * organization (`hasPermission`) plugin and list missing permissions on failure.
+	 */
+	private async checkPermissions(
+		{ permissions, mode = 'all', source }: PermissionRequirement,
+		userId: string,
+		headers: Headers,
+	): Promise<void> {
+		const api = this.options.auth.api as PermissionApi;
+		const resolved =
+			source ?? (api.userHasPermission ? 'admin' : api.hasPermission ? 'organization' : undefined);
+		const check = resolved === 'admin' ? api.userHasPermission : api.hasPermission;
+
+		if (!check) {
+			throw new Error(
+				`@RequirePermissions() requires the Better Auth ${resolved ?? 'admin or organization'} plugin to be configured`,
+			);
+		}
+
+		const hasPermissions = async (statements: PermissionStatements) => {
+			const body =
+				resolved === 'admin' ? { permissions: statements, userId } : { permissions: statements };
+			const result = await check({ body, headers });
+			return result?.success === true;
+		};
+
+		// Fast path: a single call covers "all of" semantics
+		if (mode === 'all' && (await hasPermissions(permissions))) return;
+
+		// Check each action individually to find what is missing
+		const entries = Object.entries(permissions).flatMap(([resource, actions]) =>
+			actions.map(action => ({ resource, action })),
+		);
+		const results = await Promise.all(
+			entries.map(({ resource, action }) => hasPermissions({ [resource]: [action] })),
+		);
+
+		if (mode === 'any' && results.some(Boolean)) return;
+
+		const missingPermissions: PermissionStatements = {};
+		entries.forEach(({ resource, action }, index) => {
+			if (results[index]) return;
+			missingPermissions[resource] = [...(missingPermissions[resource] ?? []), action];
+		});
+
+		throw new APIError('FORBIDDEN', {
+			message: 'Missing required permissions to access this resource',
+			code: AUTH_ERROR_CODES.INSUFFICIENT_PERMISSIONS,
+			missingPermissions,
+		});
+	}
 }
@@ -0,0 +1,328 @@
+import type { ContextId } from '@nestjs/core';
+import type { Auth } from 'better-auth';
+import type { FastifyRequest } from 'fastify';
+import type { AuthHookContext } from './auth.decorators';
+import type { HookPaths, OnAuthRequestEnd } from './types';
+
+import { ContextIdFactory } from '@nestjs/core';
+
+import { createAuthMiddleware } from 'better-auth/api';
+
+import { createHookPathMatcher } from './auth.utils';
+
+/**
+ * **Hook type** - Better Auth `hooks` entry a handler is registered with
+ */
+export type AuthHookType = 'before' | 'after';
+
+/**
+ * **Hook handler** - Function run for matching Better Auth endpoints
+ */
+export type AuthHookHandler = (ctx: AuthHookContext) => unknown;
+
+/**
+ * **Teardown error handler** - Reports an `onAuthRequestEnd()` failure
+ */
+export type HookTeardownErrorHandler = (error: unknown, instance: object) => void;
+
+interface RegisteredHook {
+	handler: AuthHookHandler;
+	matches: (path: string) => boolean;
+	priority: number;
+	sequence: number;
+}
+
+type DispatchContext = Omit<AuthHookContext, 'contextId'> & { contextId?: ContextId };
+
+const registries = new WeakMap<Auth, AuthHookRegistry>();
+
+const hookRequests = new WeakMap<Request, FastifyRequest>();
+
+/** Context ids keyed by Fastify request, or by the auth context of server-side `auth.api` calls */
+const hookContextIds = new WeakMap<object, ContextId>();
+
+/** Request-scoped and transient hook provider instances resolved in a context */
+const hookInstances = new WeakMap<ContextId, Set<object>>();
+
+/**
+ * **Hook dispatch table** - `@BeforeHook()` / `@AfterHook()` handlers of an auth instance
+ *
+ * Installs a single `before` and a single `after` middleware on the Better Auth instance.
+ * Each dispatch looks up the handlers matching the endpoint path in an index built on the
+ * first request to that endpoint, so non-matching hooks cost nothing per request.
+ *
+ * **Ordering:**
+ * - Higher `priority` runs first (default: `0`)
+ * - Equal priorities run in registration order
+ * - `hooks.before` / `hooks.after` configured in `betterAuth()` run on every endpoint with
+ *   priority `0`, ahead of decorated hooks of the same priority
+ *
+ * **Return values** follow Better Auth's hook semantics:
+ * - before: `{ context }` results are merged and passed on to Better Auth, any other object
+ *   ends the dispatch and is returned
+ * - after: every handler runs; a returned `response` (or any other object) replaces
+ *   `ctx.context.returned` and returned `headers` are merged into the response headers
+ */
+export class AuthHookRegistry {
+	private readonly hooks: Record<AuthHookType, RegisteredHook[]> = { before: [], after: [] };
+	// Keyed by endpoint path, so the index is bounded by the number of Better Auth endpoints
+	private readonly index: Record<AuthHookType, Map<string, AuthHookHandler[]>> = {
+		before: new Map(),
+		after: new Map(),
+	};
+	private sequence = 0;
+	private installed = false;
+	private onTeardownError?: HookTeardownErrorHandler;
+
+	/**
+	 * Register a handler
+	 *
+	 * @param type - `'before'` or `'after'`
+	 * @param paths - Hook decorator metadata (paths, globs, RegExps, or `{}` for every endpoint)
+	 * @param handler - Function run for matching endpoints
+	 * @param priority - Higher values run first (default: 0)
+	 */
+	register(
+		type: AuthHookType,
+		paths: HookPaths | object,
+		handler: AuthHookHandler,
+		priority = 0,
+	): void {
+		const hook = {
+			handler,
+			matches: createHookPathMatcher(paths),
+			priority,
+			sequence: this.sequence++,
+		};
+
+		const hooks = this.hooks[type];
+		const position = hooks.findIndex(existing => existing.priority < priority);
+		hooks.splice(position === -1 ? hooks.length : position, 0, hook);
+		this.index[type].clear();
+	}
+
+	/**
+	 * Handlers matching an endpoint path, in execution order
+	 */
+	resolve(type: AuthHookType, path: string): AuthHookHandler[] {
+		let handlers = this.index[type].get(path);
+		if (!handlers) {
+			handlers = this.hooks[type].filter(hook => hook.matches(path)).map(hook => hook.handler);
+			this.index[type].set(path, handlers);
+		}
+		return handlers;
+	}
+
+	/**
+	 * Run the handlers matching `ctx.path`, exposing the Nest context id as `ctx.contextId`.
+	 * Server-side `auth.api` calls end here: their hook providers are released after the
+	 * after hooks, or once a before hook rejects the call or returns its response.
+	 */
+	async dispatch(type: AuthHookType, ctx: DispatchContext): Promise<unknown> {
+		if (getHookRequest(ctx) || !ctx.context) return this.run(type, ctx);
+
+		let ended = true;
+		try {
+			const result = await this.run(type, ctx);
+			ended = type === 'after' || (result !== undefined && !isContextResult(result));
+			return result;
+		} finally {
+			if (ended) await releaseHookContext(ctx.context, this.onTeardownError);
+		}
+	}
+
+	private async run(type: AuthHookType, ctx: DispatchContext): Promise<unknown> {
+		const handlers = this.resolve(type, ctx.path);
+		if (!handlers.length) return undefined;
+
+		const hookContext = Object.assign(ctx, {
+			contextId: ctx.contextId ?? getHookContextId(ctx),
+		}) as AuthHookContext;
+
+		if (type === 'after') {
+			for (const handler of handlers) {
+				applyAfterResult(hookContext, await handler(hookContext));
+			}
+			return undefined;
+		}
+
+		let context: Record<string, unknown> | undefined;
+
+		for (const handler of handlers) {
+			const result = await handler(hookContext);
+			if (!result || typeof result !== 'object') continue;
+
+			if (isContextResult(result)) {
+				context = { ...context, ...result.context };
+				continue;
+			}
+			return result;
+		}
+
+		return context ? { context } : undefined;
+	}
+
+	/**
+	 * Replace the instance `hooks.before` / `hooks.after` with the dispatch middleware,
+	 * keeping configured hooks as priority `0` handlers. Runs once per auth instance.
+	 *
+	 * @param auth - Better Auth instance with `hooks` configured
+	 * @param onTeardownError - Reports `onAuthRequestEnd()` failures of server-side calls
+	 */
+	install(auth: Auth, onTeardownError?: HookTeardownErrorHandler): void {
+		const hooks = auth.options.hooks;
+		if (this.installed || !hooks) return;
+		this.installed = true;
+		this.onTeardownError = onTeardownError;
+
+		for (const type of ['before', 'after'] as const) {
+			const configured = hooks[type];
+			if (configured) {
+				this.register(type, {}, ctx => configured(ctx as Parameters<typeof configured>[0]));
+			}
+			hooks[type] = createAuthMiddleware(ctx => this.dispatch(type, ctx));
+		}
+	}
+}
+
+/**
+ * Before hook result passing `context` on to Better Auth rather than ending the call
+ */
+function isContextResult(result: unknown): result is { context: Record<string, unknown> } {
+	return (
+		typeof result === 'object' &&
+		result !== null &&
+		'context' in result &&
+		typeof result.context === 'object'
+	);
+}
+
+/**
+ * Apply an after hook result the way Better Auth's `runAfterHooks` does: middleware
+ * (e.g. configured `hooks.after`) return `{ headers, response }`, other objects are the response
+ */
+function applyAfterResult(ctx: AuthHookContext, result: unknown): void {
+	if (!result || typeof result !== 'object') return;
+
+	const context = ctx.context as { returned?: unknown; responseHeaders?: Headers | null };
+	const { headers, response } =
+		'response' in result || 'headers' in result
+			? (result as { headers?: unknown; response?: unknown })
+			: { headers: undefined, response: result };
+
+	if (headers instanceof Headers) {
+		headers.forEach((value, key) => {
+			context.responseHeaders ??= new Headers();
+			if (key.toLowerCase() === 'set-cookie') {
+				context.responseHeaders.append(key, value);
+			} else {
+				context.responseHeaders.set(key, value);
+			}
+		});
+	}
+	if (response !== undefined && response !== null) {
+		context.returned = response;
+	}
+}
+
+/**
+ * **Hook registry** - Dispatch table of an auth instance
+ *
+ * Populated by `AuthModule` when it discovers `@Hook()` providers on startup.
+ *
+ * @param auth - Better Auth instance
+ * @returns The instance's hook registry
+ */
+export function getHookRegistry(auth: Auth): AuthHookRegistry {
+	let registry = registries.get(auth);
+	if (!registry) {
+		registry = new AuthHookRegistry();
+		registries.set(auth, registry);
+	}
+	return registry;
+}
+
+/**
+ * Associate the Better Auth request with the Fastify request it was converted from,
+ * so hooks share the request's Nest context id
+ *
+ * @returns Release function, called once Better Auth has handled the request
+ */
+export function bindHookRequest(request: Request, fastifyRequest: FastifyRequest): () => void {
+	hookRequests.set(request, fastifyRequest);
+	return () => hookRequests.delete(request);
+}
+
+/**
+ * **Hook request** - Fastify request behind a hook context
+ *
+ * @returns The Fastify request, or undefined for server-side `auth.api` calls
+ */
+export function getHookRequest(ctx: Pick<AuthHookContext, 'request'>): FastifyRequest | undefined {
+	return ctx.request ? hookRequests.get(ctx.request) : undefined;
+}
+
+/**
+ * **Track hook provider** - Register a request-scoped or transient hook provider instance
+ * resolved for an auth request, so `releaseHookContext()` can tear it down
+ *
+ * @param contextId - Context the instance was resolved in (`ctx.contextId`)
+ * @param instance - Hook provider instance
+ */
+export function trackHookInstance(contextId: ContextId, instance: object): void {
+	let instances = hookInstances.get(contextId);
+	if (!instances) {
+		instances = new Set();
+		hookInstances.set(contextId, instances);
+	}
+	instances.add(instance);
+}
+
+/**
+ * **Release hook context** - End the Nest context of an auth request or `auth.api` call
+ *
+ * Forgets the context id and its hook provider instances, calling `onAuthRequestEnd()`
+ * on those implementing it. Failures are reported instead of thrown, so teardown never
+ * changes the response.
+ *
+ * @param key - Fastify request, or the auth context of a server-side call
+ * @param onError - Reports `onAuthRequestEnd()` failures
+ */
+export async function releaseHookContext(
+	key: object,
+	onError?: HookTeardownErrorHandler,
+): Promise<void> {
+	const contextId = hookContextIds.get(key);
+	if (!contextId) return;
+	hookContextIds.delete(key);
+
+	const instances = hookInstances.get(contextId);
+	if (!instances) return;
+	hookInstances.delete(contextId);
+
+	for (const instance of instances) {
+		try {
+			await (instance as Partial<OnAuthRequestEnd>).onAuthRequestEnd?.();
+		} catch (error) {
+			onError?.(error, instance);
+		}
+	}
+}
+
+/**
+ * Nest context id of the Fastify request, or one per server-side `auth.api` call
+ */
+function getHookContextId(ctx: Pick<AuthHookContext, 'request' | 'context'>): ContextId {
+	const request = getHookRequest(ctx);
+	// Better Auth passes the same auth context to the before and after hooks of a call
+	const key: object | undefined = request ?? ctx.context;
+	if (!key) return ContextIdFactory.create();
+
+	// Keep the context id per request or call, so before and after hooks share it
+	let contextId = hookContextIds.get(key);
+	if (!contextId) {
+		contextId = request ? ContextIdFactory.getByRequest(request) : ContextIdFactory.create();
+		hookContextIds.set(key, contextId);
+	}
+	return contextId;
+}
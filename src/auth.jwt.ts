@@ -0,0 +1,191 @@
+import type { Auth } from 'better-auth';
+import type { JSONWebKeySet, JWTPayload, JWTVerifyGetKey, JWTVerifyOptions } from 'jose';
+import type { JwtSession, JwtVerificationOptions } from './types';
+
+type Jose = typeof import('jose');
+
+type JwksApi = {
+	getJwks?: () => Promise<JSONWebKeySet>;
+};
+
+const DEFAULT_JWKS_REFRESH_COOLDOWN = 30;
+
+const verifiers = new WeakMap<Auth, JwtVerifier>();
+
+let josePromise: Promise<Jose> | undefined;
+
+/**
+ * Dynamic import to keep `jose` an optional peer dependency
+ */
+async function loadJose(): Promise<Jose> {
+	josePromise ??= import('jose').catch(() => {
+		josePromise = undefined;
+		throw new Error(
+			'jose must be installed to use JWT verification mode. Install it with: npm install jose',
+		);
+	});
+	return josePromise;
+}
+
+/**
+ * **JWT reader** - Extract a JWT from `Authorization: Bearer <jwt>`
+ *
+ * Only compact JWS tokens (three dot-separated segments) are returned, so Better Auth
+ * bearer session tokens keep going through the stateful session lookup.
+ *
+ * @param headers - Request headers
+ * @returns The JWT, or undefined when the request carries none
+ */
+export function readJwt(headers: Headers): string | undefined {
+	const [scheme, token] = headers.get('authorization')?.trim().split(/\s+/) ?? [];
+	if (scheme?.toLowerCase() !== 'bearer' || !token) return undefined;
+
+	return token.split('.').length === 3 ? token : undefined;
+}
+
+/**
+ * **JWT verifier** - Stateless verification of Better Auth JWT plugin tokens
+ *
+ * Verifies tokens locally against the JWKS served by the auth instance (`auth.api.getJwks`).
+ * The key set is fetched once and cached; when a token references an unknown key id
+ * (key rotation) the JWKS is refetched, at most once per `jwksRefreshCooldown` seconds.
+ *
+ * Verified claims are mapped to a `JwtSession`:
+ * - `user` - JWT payload (the session user by default) with `id` from `sub`
+ * - `session` - `userId` from `sub`, `expiresAt` from `exp` and `id` from `jti` when set.
+ *   The token does not carry the session's token or creation time, so these are left
+ *   unset (`@RequireFreshSession()` routes look the session up instead)
+ *
+ * Tokens must carry `exp` and match the expected `iss` and `aud` claims - `issuer` /
+ * `audience`, or the auth `baseURL`. The verifier cannot be created when neither is set.
+ *
+ * @example
+ * ```typescript
+ * const verifier = getJwtVerifier(auth, { audience: 'internal-services' });
+ * const session = await verifier.verify(token);
+ * ```
+ */
+export class JwtVerifier {
+	private readonly verifyOptions: JWTVerifyOptions;
+	private keySet?: JWTVerifyGetKey;
+	private loading?: Promise<JWTVerifyGetKey>;
+	private fetchedAt = 0;
+
+	/**
+	 * @throws {Error} When no issuer or audience can be determined
+	 */
+	constructor(
+		private readonly auth: Auth,
+		private readonly options: JwtVerificationOptions = {},
+	) {
+		const baseURL = auth.options.baseURL;
+		this.verifyOptions = {
+			issuer: options.issuer ?? baseURL,
+			audience: options.audience ?? baseURL,
+			requiredClaims: ['exp'],
+		};
+		if (!this.verifyOptions.issuer || !this.verifyOptions.audience) {
+			throw new Error(
+				"JWT mode requires the expected token issuer and audience. Set 'baseURL' in your betterAuth(...) options or 'jwt: { issuer, audience }'.",
+			);
+		}
+	}
+
+	/**
+	 * Verify a JWT and map its claims to a `JwtSession`
+	 *
+	 * @throws {Error} When the token is invalid, expired, has no `exp` claim or is signed
+	 * with an unknown key
+	 */
+	async verify(token: string): Promise<JwtSession> {
+		const jose = await loadJose();
+
+		try {
+			const { payload } = await jose.jwtVerify(
+				token,
+				await this.getKeySet(jose),
+				this.verifyOptions,
+			);
+			return toJwtSession(payload);
+		} catch (error) {
+			if ((error as { code?: string }).code !== 'ERR_JWKS_NO_MATCHING_KEY' || !this.canRefresh()) {
+				throw error;
+			}
+
+			// Unknown key id - keys were rotated, refetch the JWKS
+			const keySet = await this.getKeySet(jose, true);
+			const { payload } = await jose.jwtVerify(token, keySet, this.verifyOptions);
+			return toJwtSession(payload);
+		}
+	}
+
+	private canRefresh(): boolean {
+		const cooldown = this.options.jwksRefreshCooldown ?? DEFAULT_JWKS_REFRESH_COOLDOWN;
+		return Date.now() - this.fetchedAt >= cooldown * 1000;
+	}
+
+	private async getKeySet(jose: Jose, refresh = false): Promise<JWTVerifyGetKey> {
+		if (this.keySet && !refresh) return this.keySet;
+
+		// Share a single in-flight JWKS request between concurrent verifications
+		this.loading ??= this.fetchKeySet(jose).finally(() => {
+			this.loading = undefined;
+		});
+		return this.loading;
+	}
+
+	private async fetchKeySet(jose: Jose): Promise<JWTVerifyGetKey> {
+		const api = this.auth.api as JwksApi;
+		if (!api.getJwks) {
+			throw new Error('JWT mode requires the Better Auth jwt plugin to be configured');
+		}
+
+		const jwks = await api.getJwks();
+		this.keySet = jose.createLocalJWKSet(jwks);
+		this.fetchedAt = Date.now();
+		return this.keySet;
+	}
+}
+
+/**
+ * **Shared verifier** - One `JwtVerifier` (and JWKS cache) per auth instance
+ *
+ * @param auth - Better Auth instance serving the JWKS
+ * @param options - Verification options
+ * @returns Cached verifier for the auth instance
+ * @throws {Error} When no issuer or audience can be determined
+ */
+export function getJwtVerifier(auth: Auth, options?: JwtVerificationOptions): JwtVerifier {
+	let verifier = verifiers.get(auth);
+	if (!verifier) {
+		verifier = new JwtVerifier(auth, options);
+		verifiers.set(auth, verifier);
+	}
+	return verifier;
+}
+
+const toDate = (value: unknown): unknown =>
+	typeof value === 'string' || typeof value === 'number' ? new Date(value) : value;
+
+/**
+ * Map verified claims to a `JwtSession` (`exp` is a required claim)
+ */
+function toJwtSession(payload: JWTPayload): JwtSession {
+	const { iss: _iss, aud: _aud, nbf: _nbf, iat: _iat, exp, jti, sub, ...claims } = payload;
+	const userId = typeof claims.id === 'string' ? claims.id : (sub ?? '');
+
+	const user = {
+		...claims,
+		id: userId,
+		createdAt: toDate(claims.createdAt),
+		updatedAt: toDate(claims.updatedAt),
+	} as JwtSession['user'];
+
+	const session: JwtSession['session'] = {
+		userId,
+		expiresAt: new Date((exp as number) * 1000),
+	};
+	if (jti) session.id = jti;
+
+	return { user, session };
+}
@@ -2,7 +2,14 @@ import type { AuthModuleConfig, AuthModuleFeatures } from './types';
 
 import { ConfigurableModuleBuilder } from '@nestjs/common';
 
-import { AUTH_MODULE_OPTIONS } from './auth.symbols';
+import { AuthService } from './auth.service';
+import {
+	AUTH_MODULE_NAME,
+	AUTH_MODULE_OPTIONS,
+	getAuthOptionsToken,
+	getAuthServiceToken,
+} from './auth.symbols';
+import { WsSessionManager } from './auth.ws';
 
 interface ExtraOptions extends AuthModuleFeatures {
 	isGlobal: boolean;
@@ -22,7 +29,22 @@ export const { ConfigurableModuleClass, OPTIONS_TYPE, ASYNC_OPTIONS_TYPE } =
 			},
 			(definition, extras) => ({
 				...definition,
-				exports: [AUTH_MODULE_OPTIONS],
+				providers: [
+					...(definition.providers ?? []),
+					AuthService,
+					WsSessionManager,
+					// Named instances are only exposed through name-scoped tokens
+					...(extras.name
+						? [
+								{ provide: AUTH_MODULE_NAME, useValue: extras.name },
+								{ provide: getAuthOptionsToken(extras.name), useExisting: AUTH_MODULE_OPTIONS },
+								{ provide: getAuthServiceToken(extras.name), useExisting: AuthService },
+							]
+						: []),
+				],
+				exports: extras.name
+					? [getAuthOptionsToken(extras.name), getAuthServiceToken(extras.name)]
+					: [AUTH_MODULE_OPTIONS, AuthService, WsSessionManager],
 				global: extras.isGlobal,
 			}),
 		)
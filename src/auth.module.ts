@@ -1,10 +1,16 @@
 /** biome-ignore-all lint/complexity/noThisInStatic: Allow super in forRoot and forRootAsync */
-import type { DynamicModule, MiddlewareConsumer, NestModule, OnModuleInit } from '@nestjs/common';
+import type {
+	DynamicModule,
+	MiddlewareConsumer,
+	NestModule,
+	OnModuleInit,
+	Type,
+} from '@nestjs/common';
 import type { FastifyAdapter } from '@nestjs/platform-fastify';
 import type { FastifyInstance, FastifyRequest } from 'fastify';
-import type { AuthModuleConfig } from './types';
+import type { AuthModuleConfig, OwnershipResolver } from './types';
 
-import { HttpStatus, Inject, Logger, Module } from '@nestjs/common';
+import { HttpStatus, Inject, Logger, Module, Optional as OptionalDependency } from '@nestjs/common';
 import {
 	APP_FILTER,
 	APP_GUARD,
@@ -12,20 +18,41 @@ import {
 	DiscoveryService,
 	HttpAdapterHost,
 	MetadataScanner,
+	ModuleRef,
 } from '@nestjs/core';
 
-import { createAuthMiddleware } from 'better-auth/api';
-
-import { AfterHook, BeforeHook, Hook } from './auth.decorators';
+import { AbilityFactory } from './auth.ability';
+import { getSessionCache } from './auth.cache';
+import {
+	AfterHook,
+	type AuthHookContext,
+	BeforeHook,
+	Hook,
+	HookPriority,
+	OwnerResolver,
+} from './auth.decorators';
+import { createAuthPreHandler } from './auth.fastify';
 import { AuthFilter } from './auth.filter';
 import { AuthGuard } from './auth.guard';
+import {
+	type AuthHookRegistry,
+	bindHookRequest,
+	getHookRegistry,
+	getHookRequest,
+	releaseHookContext,
+	trackHookInstance,
+} from './auth.hooks';
+import { getJwtVerifier } from './auth.jwt';
 import {
 	type ASYNC_OPTIONS_TYPE,
 	ConfigurableModuleClass,
 	type OPTIONS_TYPE,
 } from './auth.module-definition';
-import { AuthService } from './auth.service';
-import { AUTH_MODULE_OPTIONS } from './auth.symbols';
+import { getOwnershipResolvers } from './auth.ownership';
+import { AUTH_MODULE_NAME, AUTH_MODULE_OPTIONS } from './auth.symbols';
+import { describeHookPaths } from './auth.utils';
+
+const AUTH_TOKEN_HEADER = 'set-auth-token';
 
 const HOOKS = [
 	{ metadataKey: BeforeHook.KEY, hookType: 'before' as const },
@@ -45,9 +72,16 @@ const HOOKS = [
  * This module provides:
  * - Authentication middleware for Better Auth integration
  * - Automatic CORS configuration based on trustedOrigins
+ * - Bearer token mode for mobile clients (`bearer: true`)
+ * - Session cache invalidation on sign-out and revocation (`sessionCache`)
+ * - Policy-based authorization via a registered `AbilityFactory` (`abilityFactory`)
  * - Hook system for before/after auth operations
+ * - Discovery of `@OwnerResolver()` providers for `@OwnedBy()` routes
  * - Global exception handling for auth errors
  * - Session management and guards
+ * - `fastify.authenticate` preHandler for routes registered directly on Fastify
+ * - Long-lived WebSocket sessions via `WsSessionManager`
+ * - Named instances (`name`) for applications running several Better Auth instances
  * - Enhanced type safety via ConfigurableModuleBuilder
  *
  * @example
@@ -74,8 +108,6 @@ const HOOKS = [
  */
 @Module({
 	imports: [DiscoveryModule],
-	providers: [AuthService],
-	exports: [AuthService],
 })
 export class AuthModule extends ConfigurableModuleClass implements NestModule, OnModuleInit {
 	private readonly logger = new Logger(AuthModule.name);
@@ -89,18 +121,30 @@ export class AuthModule extends ConfigurableModuleClass implements NestModule, O
 		private readonly adapter: HttpAdapterHost<FastifyAdapter>,
 		@Inject(AUTH_MODULE_OPTIONS)
 		private readonly options: AuthModuleConfig,
+		@Inject(ModuleRef)
+		private readonly moduleRef: ModuleRef,
+		@OptionalDependency()
+		@Inject(AbilityFactory)
+		private readonly abilityFactory?: AbilityFactory,
+		@OptionalDependency()
+		@Inject(AUTH_MODULE_NAME)
+		private readonly name?: string,
 	) {
 		super();
 	}
 
 	configure(_consumer: MiddlewareConsumer): void {
+		this.setupBearer();
+		this.setupJwt();
 		this.setupCors();
 		this.setupHandler();
+		this.setupPreHandler();
 	}
 
 	onModuleInit(): void {
 		this.logger.log('🚀 NestJS Better Auth module initialized');
 		this.setupHooks();
+		this.setupOwnershipResolvers();
 	}
 
 	/**
@@ -131,6 +175,42 @@ export class AuthModule extends ConfigurableModuleClass implements NestModule, O
 		});
 	}
 
+	/**
+	 * Validate bearer token mode.
+	 * The Better Auth bearer plugin converts `Authorization: Bearer` into a session cookie
+	 * and returns new tokens in the `set-auth-token` response header.
+	 *
+	 * @private
+	 * @throws {Error} If bearer mode is enabled without the bearer plugin
+	 * @returns {void}
+	 */
+	private setupBearer(): void {
+		if (!this.options.bearer) return;
+
+		const hasBearerPlugin = this.options.auth.options.plugins?.some(
+			plugin => plugin.id === 'bearer',
+		);
+		if (!hasBearerPlugin) {
+			throw new Error(
+				"Bearer mode is enabled but the Better Auth bearer plugin is not configured. Add 'plugins: [bearer()]' to your betterAuth(...) options.",
+			);
+		}
+
+		this.logger.log(`Bearer token mode enabled (token exposed via ${AUTH_TOKEN_HEADER} header)`);
+	}
+
+	/**
+	 * Create the JWT verifier of JWT mode up front, so a missing issuer or audience fails
+	 * on startup rather than on the first request.
+	 */
+	private setupJwt(): void {
+		if (!this.options.jwt) return;
+
+		const options = typeof this.options.jwt === 'object' ? this.options.jwt : undefined;
+		getJwtVerifier(this.options.auth, options);
+		this.logger.log('Stateless JWT mode enabled');
+	}
+
 	/**
 	 * Setup CORS configuration based on Better Auth trustedOrigins.
 	 * Supports three modes:
@@ -145,6 +225,12 @@ export class AuthModule extends ConfigurableModuleClass implements NestModule, O
 	private setupCors(): void {
 		const trustedOrigins = this.options.auth.options.trustedOrigins;
 
+		// Fastify CORS can only be registered once - the default instance configures it
+		if (this.name) {
+			this.logger.debug(`Skipping automatic CORS setup for named instance '${this.name}'`);
+			return;
+		}
+
 		if (this.options.disableTrustedOriginsCors) {
 			this.logger.log('CORS disabled by module configuration');
 			return;
@@ -187,6 +273,7 @@ export class AuthModule extends ConfigurableModuleClass implements NestModule, O
 			origin: origins,
 			methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
 			allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With'],
+			...(this.options.bearer ? { exposedHeaders: [AUTH_TOKEN_HEADER] } : {}),
 			credentials: true,
 			maxAge: 86_400, // 24 hours preflight cache
 		});
@@ -246,6 +333,9 @@ export class AuthModule extends ConfigurableModuleClass implements NestModule, O
 					reply.header('Access-Control-Allow-Origin', requestOrigin);
 					reply.header('Access-Control-Allow-Credentials', 'true');
 					reply.header('Vary', 'Origin');
+					if (this.options.bearer) {
+						reply.header('Access-Control-Expose-Headers', AUTH_TOKEN_HEADER);
+					}
 				}
 			} catch (error) {
 				this.logger.error(`Dynamic CORS evaluation failed for ${request.url}: ${error}`);
@@ -317,6 +407,23 @@ export class AuthModule extends ConfigurableModuleClass implements NestModule, O
 		}
 	}
 
+	/**
+	 * Expose the `AuthGuard` logic as `fastify.authenticate` for routes registered
+	 * directly on Fastify (webhooks, legacy plugins) that never reach Nest guards.
+	 */
+	private setupPreHandler(): void {
+		if (this.name) return;
+
+		const fastifyInstance = this.adapter.httpAdapter.getInstance<FastifyInstance>();
+		if (fastifyInstance.hasDecorator('authenticate')) return;
+
+		fastifyInstance.decorate(
+			'authenticate',
+			createAuthPreHandler(this.options, this.abilityFactory, this.moduleRef),
+		);
+		this.logger.log('✅ Fastify preHandler registered as fastify.authenticate');
+	}
+
 	/**
 	 * Setup Better Auth handler as Fastify catch-all route
 	 * Follows Better Auth Fastify integration pattern with performance optimizations
@@ -347,8 +454,28 @@ export class AuthModule extends ConfigurableModuleClass implements NestModule, O
 					// Convert Fastify request to Web API Request for Better Auth
 					const webRequest = this.convertToWebApiRequest(request);
 
-					// Process request through Better Auth handler
-					const response = await this.options.auth.handler(webRequest);
+					// Collect cached sessions affected by this request (before they are revoked)
+					const sessionCache = getSessionCache(this.options);
+					const staleTokens = sessionCache
+						? await sessionCache.collectStaleTokens(
+								request.method,
+								new URL(webRequest.url).pathname.slice(normalizedPath.length),
+								webRequest.headers,
+								request.body,
+							)
+						: [];
+
+					// Process request through Better Auth handler (hooks share the request's Nest context)
+					const releaseHookRequest = bindHookRequest(webRequest, request);
+					const response = await this.options.auth.handler(webRequest).finally(() => {
+						releaseHookRequest();
+						return releaseHookContext(request, this.reportHookTeardownError);
+					});
+
+					// Invalidate after handling so concurrent guards cannot re-cache revoked sessions
+					if (sessionCache && staleTokens.length > 0) {
+						await sessionCache.invalidate(staleTokens);
+					}
 
 					// Set response status
 					reply.status(response.status);
@@ -399,7 +526,8 @@ export class AuthModule extends ConfigurableModuleClass implements NestModule, O
 	/**
 	 * Setup Better Auth hooks from decorated providers.
 	 * Scans for providers decorated with @Hook and registers their
-	 * @BeforeHook and @AfterHook methods with Better Auth.
+	 * @BeforeHook and @AfterHook methods in the instance's hook dispatch table.
+	 * `@Hook('name')` providers are only registered with the matching named instance.
 	 *
 	 * @private
 	 * @returns {void}
@@ -407,7 +535,7 @@ export class AuthModule extends ConfigurableModuleClass implements NestModule, O
 	private setupHooks(): void {
 		const providers = this.discoveryService
 			.getProviders()
-			.filter(({ metatype }) => metatype && Reflect.getMetadata(Hook.KEY, metatype));
+			.filter(({ metatype }) => metatype && this.isHookProviderOf(metatype));
 
 		const hasHookProviders = providers.length > 0;
 		const hooksConfigured = typeof this.options.auth.options.hooks === 'object';
@@ -417,67 +545,122 @@ export class AuthModule extends ConfigurableModuleClass implements NestModule, O
 				"Detected @Hook providers but Better Auth 'hooks' are not configured. Add 'hooks: {}' to your betterAuth(...) options.",
 			);
 
-		if (!hooksConfigured) return;
+		if (!hasHookProviders) return;
 
-		let registeredCount = 0;
+		// Configured hooks keep running first among hooks of the same priority
+		const registry = getHookRegistry(this.options.auth);
+		registry.install(this.options.auth, this.reportHookTeardownError);
 
 		for (const provider of providers) {
-			if (!provider.instance) {
-				this.logger.warn(
-					`Cannot register hooks from ${provider.metatype?.name || 'unknown provider'} - provider instance not available. ` +
-						`Ensure hook providers use DEFAULT scope (not REQUEST or TRANSIENT).`,
-				);
-				continue;
-			}
+			const metatype = provider.metatype as Type;
+
+			// Request-scoped and transient providers are resolved for each auth request
+			const resolveInstance =
+				provider.isTransient || !provider.isDependencyTreeStatic()
+					? (ctx: AuthHookContext) => this.resolveHookProvider(metatype, ctx)
+					: () => provider.instance;
 
-			const providerPrototype = Object.getPrototypeOf(provider.instance);
+			const providerPrototype = metatype.prototype;
 			const methods = this.metadataScanner.getAllMethodNames(providerPrototype);
+			const priority = Reflect.getMetadata(HookPriority.KEY, metatype);
 
 			for (const methodName of methods) {
 				const method = providerPrototype[methodName];
 				if (typeof method === 'function') {
-					this.setupHookMethod(method, provider.instance, methodName);
+					this.setupHookMethod(registry, method, resolveInstance, methodName, priority);
 				}
 			}
+		}
+
+		this.logger.log(`Configured hooks for ${providers.length} provider(s)`);
+	}
+
+	/**
+	 * Whether a `@Hook()` provider targets this instance (unnamed hooks target the default one)
+	 */
+	private isHookProviderOf(metatype: object): boolean {
+		const target = Reflect.getMetadata(Hook.KEY, metatype) as string | boolean | object | undefined;
+		if (!target) return false;
+
+		return (typeof target === 'string' ? target : undefined) === this.name;
+	}
 
-			registeredCount++;
+	/**
+	 * Register `@OwnerResolver()` providers for `@OwnedBy()` checks in `AuthGuard`.
+	 * Discovered the same way as `@Hook()` providers.
+	 *
+	 * @private
+	 * @returns {void}
+	 */
+	private setupOwnershipResolvers(): void {
+		const registry = getOwnershipResolvers(this.options.auth);
+
+		for (const { metatype, instance } of this.discoveryService.getProviders()) {
+			if (!metatype || !Reflect.getMetadata(OwnerResolver.KEY, metatype)) continue;
+
+			if (!instance) {
+				this.logger.warn(
+					`Cannot register ownership resolver ${metatype.name} - provider instance not available. ` +
+						`Ensure resolvers use DEFAULT scope (not REQUEST or TRANSIENT).`,
+				);
+				continue;
+			}
+
+			registry.set(metatype as Type<OwnershipResolver>, instance as OwnershipResolver);
 		}
 
-		this.logger.log(`Configured hooks for ${registeredCount} provider(s)`);
+		if (registry.size > 0) {
+			this.logger.log(`Registered ${registry.size} ownership resolver(s)`);
+		}
+	}
+
+	/**
+	 * Resolve a request-scoped or transient hook provider for the auth request.
+	 * The instance lives in the request's Nest context and is released with it once the
+	 * request has been handled, calling its `onAuthRequestEnd()` hook.
+	 */
+	private async resolveHookProvider(metatype: Type, ctx: AuthHookContext): Promise<unknown> {
+		const request = getHookRequest(ctx);
+		if (request) {
+			this.moduleRef.registerRequestByContextId(request, ctx.contextId);
+		}
+		const instance = await this.moduleRef.resolve(metatype, ctx.contextId, { strict: false });
+		trackHookInstance(ctx.contextId, instance);
+		return instance;
 	}
 
+	private readonly reportHookTeardownError = (error: unknown, instance: object): void => {
+		this.logger.error(
+			`onAuthRequestEnd() failed for ${instance.constructor.name}:`,
+			error instanceof Error ? error.stack : error,
+		);
+	};
+
 	/**
-	 * Setup individual hook method with Better Auth middleware
+	 * Register an individual hook method in the dispatch table
 	 */
 	private setupHookMethod(
+		registry: AuthHookRegistry,
 		providerMethod: (...args: unknown[]) => unknown,
-		providerInstance: unknown,
+		resolveInstance: (ctx: AuthHookContext) => unknown,
 		methodName: string,
+		providerPriority?: number,
 	): void {
-		if (!this.options.auth.options.hooks) return;
-
 		for (const { metadataKey, hookType } of HOOKS) {
-			const hookPath = Reflect.getMetadata(metadataKey, providerMethod);
-			if (!hookPath) continue;
-
-			// Get existing hook to preserve it when chaining multiple hooks
-			const originalHook = this.options.auth.options.hooks[hookType];
-
-			// Create wrapper that executes all hooks for this path
-			this.options.auth.options.hooks[hookType] = createAuthMiddleware(async ctx => {
-				// Execute original hook first (if exists)
-				if (originalHook) {
-					await originalHook(ctx);
-				}
-
-				// Execute this hook if path matches
-				if (hookPath === ctx.path) {
-					await providerMethod.apply(providerInstance, [ctx]);
-				}
-			});
+			const hookPaths = Reflect.getMetadata(metadataKey, providerMethod);
+			if (!hookPaths) continue;
+
+			const priority: number =
+				Reflect.getMetadata(HookPriority.KEY, providerMethod) ?? providerPriority ?? 0;
+			registry.register(
+				hookType,
+				hookPaths,
+				async ctx => providerMethod.apply(await resolveInstance(ctx), [ctx]),
+				priority,
+			);
 
 			this.logger.log(
-				`Registered ${hookType} hook for method "${methodName}" on path: ${hookPath || 'global'}`,
+				`Registered ${hookType} hook for method "${methodName}" on path: ${describeHookPaths(hookPaths)}`,
 			);
 		}
 	}
@@ -516,8 +699,20 @@ import { BetterAuthModule } from './modules/better-auth/better-auth.module';
 			...forRootResult,
 			providers: [
 				...(forRootResult.providers || []),
-				...(!options.disableGlobalAuthGuard ? [{ provide: APP_GUARD, useClass: AuthGuard }] : []),
-				...(!options.disableExceptionFilter ? [{ provide: APP_FILTER, useClass: AuthFilter }] : []),
+				// Named instances rely on the default instance's guard (`@UseAuth()`) and filter
+				...(!options.disableGlobalAuthGuard && !options.name
+					? [{ provide: APP_GUARD, useClass: AuthGuard }]
+					: []),
+				...(!options.disableExceptionFilter && !options.name
+					? [{ provide: APP_FILTER, useClass: AuthFilter }]
+					: []),
+				...(options.abilityFactory
+					? [{ provide: AbilityFactory, useClass: options.abilityFactory }]
+					: []),
+			],
+			exports: [
+				...(forRootResult.exports || []),
+				...(options.abilityFactory ? [AbilityFactory] : []),
 			],
 		};
 	}
@@ -560,8 +755,20 @@ import { BetterAuthModule } from './modules/better-auth/better-auth.module';
 			...forRootAsyncResult,
 			providers: [
 				...(forRootAsyncResult.providers || []),
-				...(!options.disableGlobalAuthGuard ? [{ provide: APP_GUARD, useClass: AuthGuard }] : []),
-				...(!options.disableExceptionFilter ? [{ provide: APP_FILTER, useClass: AuthFilter }] : []),
+				// Named instances rely on the default instance's guard (`@UseAuth()`) and filter
+				...(!options.disableGlobalAuthGuard && !options.name
+					? [{ provide: APP_GUARD, useClass: AuthGuard }]
+					: []),
+				...(!options.disableExceptionFilter && !options.name
+					? [{ provide: APP_FILTER, useClass: AuthFilter }]
+					: []),
+				...(options.abilityFactory
+					? [{ provide: AbilityFactory, useClass: options.abilityFactory }]
+					: []),
+			],
+			exports: [
+				...(forRootAsyncResult.exports || []),
+				...(options.abilityFactory ? [AbilityFactory] : []),
 			],
 		};
 	}
@@ -0,0 +1,23 @@
+import type { Type } from '@nestjs/common';
+import type { Auth } from 'better-auth';
+import type { OwnershipResolver } from './types';
+
+const registries = new WeakMap<Auth, Map<Type<OwnershipResolver>, OwnershipResolver>>();
+
+/**
+ * **Ownership resolvers** - `@OwnerResolver()` providers registered for an auth instance
+ *
+ * Populated by `AuthModule` when it discovers `@OwnerResolver()` providers on startup
+ * and read by `AuthGuard` to evaluate `@OwnedBy()` requirements.
+ *
+ * @param auth - Better Auth instance
+ * @returns Resolver instances keyed by provider class
+ */
+export function getOwnershipResolvers(auth: Auth): Map<Type<OwnershipResolver>, OwnershipResolver> {
+	let registry = registries.get(auth);
+	if (!registry) {
+		registry = new Map();
+		registries.set(auth, registry);
+	}
+	return registry;
+}
@@ -0,0 +1,241 @@
+import type { CallHandler, ExecutionContext, NestInterceptor } from '@nestjs/common';
+import type {
+	AuthModuleConfig,
+	JwtSession,
+	RpcSession,
+	RpcSessionEnvelope,
+	UserSession,
+} from './types';
+
+import { Inject, Injectable } from '@nestjs/common';
+
+import { from, Observable, switchMap } from 'rxjs';
+
+import { AUTH_MODULE_OPTIONS } from './auth.symbols';
+import { extractRequestFromExecutionContext, parseDuration } from './auth.utils';
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { createHmac, timingSafeEqual } from 'node:crypto';
+
+type RpcSerializer = {
+	serialize(value: unknown, options?: Record<string, unknown>): unknown;
+};
+
+/**
+ * **Envelope key** - Payload property carrying the signed session envelope
+ */
+export const RPC_SESSION_KEY = '__session';
+
+const DEFAULT_ENVELOPE_TTL = 300;
+
+const outgoingEnvelopes = new AsyncLocalStorage<string>();
+
+/** Sessions verified by `AuthGuard`, keyed by message payload - never stored on the payload itself */
+const verifiedEnvelopes = new WeakMap<object, RpcSession | null>();
+
+/**
+ * Secret used to sign envelopes - `rpc.secret`, falling back to the Better Auth secret
+ */
+function getRpcSecret({ auth, rpc }: AuthModuleConfig): string {
+	const secret = rpc?.secret ?? auth.options.secret ?? process.env.BETTER_AUTH_SECRET;
+	if (!secret) {
+		throw new Error('RPC session propagation requires `rpc.secret` or a Better Auth secret');
+	}
+	return secret;
+}
+
+function sign(payload: string, secret: string): Buffer {
+	return createHmac('sha256', secret).update(payload).digest();
+}
+
+/**
+ * **Sign envelope** - Encode a session as `<payload>.<signature>` (base64url, HMAC-SHA256)
+ *
+ * The envelope expires with the session, or after `rpc.ttl` seconds (default: 5 minutes),
+ * whichever comes first.
+ *
+ * @param session - Authenticated session
+ * @param options - Module configuration
+ * @returns Signed envelope
+ */
+export function signSessionEnvelope(
+	session: UserSession | JwtSession | RpcSession,
+	options: AuthModuleConfig,
+): string {
+	const ttl = parseDuration(options.rpc?.ttl ?? DEFAULT_ENVELOPE_TTL);
+	const envelope: RpcSessionEnvelope = {
+		userId: session.user.id,
+		sessionId: session.session.id,
+		expiresAt: Math.min(new Date(session.session.expiresAt).getTime(), Date.now() + ttl * 1000),
+	};
+
+	const payload = Buffer.from(JSON.stringify(envelope)).toString('base64url');
+	return `${payload}.${sign(payload, getRpcSecret(options)).toString('base64url')}`;
+}
+
+/**
+ * **Verify envelope** - Check the signature and expiry of a signed session envelope
+ *
+ * @param value - Signed envelope
+ * @param options - Module configuration
+ * @returns The envelope, or null when it is malformed, forged or expired
+ */
+export function verifySessionEnvelope(
+	value: unknown,
+	options: AuthModuleConfig,
+): RpcSessionEnvelope | null {
+	if (typeof value !== 'string') return null;
+
+	const [payload, signature, ...rest] = value.split('.');
+	if (!payload || !signature || rest.length) return null;
+
+	const expected = sign(payload, getRpcSecret(options));
+	const actual = Buffer.from(signature, 'base64url');
+	if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return null;
+
+	try {
+		const envelope = JSON.parse(Buffer.from(payload, 'base64url').toString()) as RpcSessionEnvelope;
+		return envelope.expiresAt > Date.now() ? envelope : null;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * **Read RPC session** - Verify the session envelope of an incoming message payload
+ *
+ * Verifies the envelope under `RPC_SESSION_KEY` and removes it from the payload, so
+ * handlers and validation pipes only see their own data. Results are memoized per
+ * payload, as the guard may run several times per message.
+ *
+ * @param data - Incoming message payload
+ * @param options - Module configuration
+ * @returns Session built from the envelope, or null when the payload carries no valid envelope
+ */
+export function readRpcSession(data: unknown, options: AuthModuleConfig): RpcSession | null {
+	if (typeof data !== 'object' || data === null) return null;
+
+	const memoized = verifiedEnvelopes.get(data);
+	if (memoized !== undefined) return memoized;
+
+	const payload = data as Record<string, unknown>;
+	const envelope = verifySessionEnvelope(payload[RPC_SESSION_KEY], options);
+	delete payload[RPC_SESSION_KEY];
+
+	const session: RpcSession | null = envelope
+		? {
+				user: { id: envelope.userId },
+				session: {
+					id: envelope.sessionId,
+					userId: envelope.userId,
+					expiresAt: new Date(envelope.expiresAt),
+				},
+			}
+		: null;
+	verifiedEnvelopes.set(data, session);
+	return session;
+}
+
+/**
+ * **RPC session** - Session `AuthGuard` verified for an incoming message payload
+ *
+ * Only sessions verified from the signed envelope are returned: properties of the payload
+ * itself (e.g. `session` or `user`) are controlled by the sender and never trusted.
+ *
+ * @param data - Incoming message payload
+ * @returns The verified session, or null when the guard did not authenticate the payload
+ */
+export function getRpcSession(data: unknown): RpcSession | null {
+	if (typeof data !== 'object' || data === null) return null;
+	return verifiedEnvelopes.get(data) ?? null;
+}
+
+/**
+ * **Session propagation** - Sign the caller's session for outgoing microservice messages
+ *
+ * Client-side interceptor: signs the session `AuthGuard` attached to the request and
+ * makes it available to `RpcSessionSerializer`, which adds it to every message sent
+ * while handling the request. On the receiving side `AuthGuard` verifies the envelope
+ * and exposes an `RpcSession` with the caller's `user.id`, `session.id` and
+ * `session.expiresAt` to `@Session()`, `@CurrentUser()` and `@SessionField()`.
+ * Handlers that forward messages to further services propagate the verified session.
+ *
+ * @example
+ * ```typescript
+ * // Calling service
+ * ClientsModule.register([
+ *   { name: 'BILLING', transport: Transport.TCP, options: { serializer: new RpcSessionSerializer() } },
+ * ]);
+ *
+ * @UseInterceptors(RpcSessionInterceptor)
+ * @Controller('invoices')
+ * export class InvoicesController {
+ *   constructor(@Inject('BILLING') private readonly billing: ClientProxy) {}
+ *
+ *   @Get()
+ *   list() {
+ *     return this.billing.send('invoices.list', {}); // carries the signed session
+ *   }
+ * }
+ *
+ * // Billing microservice (AuthModule registered with the same secret)
+ * @MessagePattern('invoices.list')
+ * list(@Session() session: RpcSession) {
+ *   return this.invoices.findByUser(session.user.id);
+ * }
+ * ```
+ */
+@Injectable()
+export class RpcSessionInterceptor implements NestInterceptor {
+	constructor(
+		@Inject(AUTH_MODULE_OPTIONS)
+		private readonly options: AuthModuleConfig,
+	) {}
+
+	intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+		return from(this.getSession(context)).pipe(
+			switchMap(session => {
+				if (!session) return next.handle();
+
+				const envelope = signSessionEnvelope(session, this.options);
+				return new Observable(subscriber =>
+					outgoingEnvelopes.run(envelope, () => next.handle().subscribe(subscriber)),
+				);
+			}),
+		);
+	}
+
+	/**
+	 * Session attached by `AuthGuard` - read from the verified envelope map for microservice
+	 * handlers, as the incoming payload is controlled by the sender
+	 */
+	private async getSession(
+		context: ExecutionContext,
+	): Promise<UserSession | JwtSession | RpcSession | null> {
+		if (context.getType() === 'rpc') return getRpcSession(context.switchToRpc().getData());
+
+		const request = await extractRequestFromExecutionContext(context);
+		return request?.session ?? null;
+	}
+}
+
+/**
+ * **Session serializer** - Add the envelope signed by `RpcSessionInterceptor` to outgoing packets
+ *
+ * Only object payloads can carry the envelope; other payloads are sent unchanged.
+ *
+ * @param serializer - Serializer to delegate to (e.g. a transport-specific serializer)
+ */
+export class RpcSessionSerializer implements RpcSerializer {
+	constructor(private readonly serializer?: RpcSerializer) {}
+
+	serialize(packet: unknown, options?: Record<string, unknown>): unknown {
+		const envelope = outgoingEnvelopes.getStore();
+		const data = (packet as { data?: unknown } | null)?.data;
+
+		const value =
+			envelope && typeof data === 'object' && data !== null && !Array.isArray(data)
+				? { ...(packet as object), data: { ...data, [RPC_SESSION_KEY]: envelope } }
+				: packet;
+		return this.serializer ? this.serializer.serialize(value, options) : value;
+	}
+}
@@ -1,4 +1,5 @@
-import type { AuthModuleConfig, AuthWithOpenAPI } from './types';
+import type { Auth } from 'better-auth';
+import type { AuthModuleConfig, RegisteredAuth } from './types';
 
 import { Inject, Injectable } from '@nestjs/common';
 
@@ -10,7 +11,8 @@ import { AUTH_MODULE_OPTIONS } from './auth.symbols';
  * Bridge between NestJS DI and Better Auth with full type safety.
  * Use this to programmatically interact with authentication without decorators.
  *
- * **Default Behavior**: AuthService automatically includes **openAPI plugin methods** out of the box.
+ * **Default Behavior**: AuthService automatically includes **openAPI plugin methods** out of the box,
+ * or the full API of the instance registered with `AuthRegister`.
  *
  * **Perfect for:**
  * - Building custom auth endpoints
@@ -19,7 +21,8 @@ import { AUTH_MODULE_OPTIONS } from './auth.symbols';
  * - Background jobs and scripts
  * - Testing and mocking
  *
- * @template T - Better Auth instance type (default: AuthWithOpenAPI with openAPI plugin)
+ * @template T - Better Auth instance type (default: the instance registered with `AuthRegister`,
+ * or AuthWithOpenAPI with openAPI plugin)
  *
  * @example
  * ```typescript
@@ -69,7 +72,7 @@ import { AUTH_MODULE_OPTIONS } from './auth.symbols';
  * ```
  */
 @Injectable()
-export class AuthService<T extends AuthWithOpenAPI = AuthWithOpenAPI> {
+export class AuthService<T extends Auth = RegisteredAuth> {
 	constructor(
 		@Inject(AUTH_MODULE_OPTIONS)
 		private readonly options: AuthModuleConfig<T>,
@@ -24,3 +24,39 @@
  * @internal This is primarily for framework internals
  */
 export const AUTH_MODULE_OPTIONS: unique symbol = Symbol('AUTH_MODULE_OPTIONS');
+
+/**
+ * **Instance name token** - Name of a named `AuthModule` registration
+ *
+ * Provided inside modules registered with `AuthModule.forRoot({ name })`.
+ *
+ * @internal This is primarily for framework internals
+ */
+export const AUTH_MODULE_NAME: unique symbol = Symbol('AUTH_MODULE_NAME');
+
+/**
+ * **Named options token** - Configuration DI token of a named auth instance
+ *
+ * @param name - Instance name passed to `AuthModule.forRoot({ name })`
+ * @returns Injection token exported by the named module
+ *
+ * @example
+ * ```typescript
+ * constructor(@Inject(getAuthOptionsToken('admin')) private config: AuthModuleConfig) {}
+ * ```
+ */
+export function getAuthOptionsToken(name: string): string {
+	return `AUTH_MODULE_OPTIONS:${name}`;
+}
+
+/**
+ * **Named service token** - `AuthService` DI token of a named auth instance
+ *
+ * @param name - Instance name passed to `AuthModule.forRoot({ name })`
+ * @returns Injection token exported by the named module
+ *
+ * @see {@link InjectAuth} for the decorator form
+ */
+export function getAuthServiceToken(name: string): string {
+	return `AuthService:${name}`;
+}
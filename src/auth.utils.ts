@@ -1,6 +1,27 @@
 import type { ExecutionContext } from '@nestjs/common';
 import type { GqlContextType } from '@nestjs/graphql';
+import type { Auth } from 'better-auth';
 import type { FastifyRequest } from 'fastify';
+import type {
+	HookPathMatcher,
+	HookPaths,
+	JwtSession,
+	RpcSession,
+	User,
+	UserSession,
+} from './types';
+
+import { createRequire } from 'node:module';
+
+type GraphqlModules = {
+	graphql: typeof import('graphql');
+	'@nestjs/graphql': typeof import('@nestjs/graphql');
+};
+
+const requireModule = createRequire(import.meta.url);
+
+/** Stand-in requests for raw `ws` clients, which carry no handshake */
+const wsRequests = new WeakMap<object, FastifyRequest>();
 
 /**
  * **Universal request extractor** - Get FastifyRequest from any context
@@ -12,7 +33,7 @@ import type { FastifyRequest } from 'fastify';
  * - ✅ HTTP (REST APIs) - most common
  * - ✅ GraphQL - Apollo/Mercurius
  * - ✅ WebSocket - real-time connections
- * - ✅ RPC - microservices
+ * - ✅ RPC - microservices (returns the message payload)
  *
  * **Why you might need this:**
  * - Building custom guards for specific routes
@@ -65,29 +86,236 @@ import type { FastifyRequest } from 'fastify';
 export async function extractRequestFromExecutionContext(
 	context: ExecutionContext,
 ): Promise<FastifyRequest> {
+	return getRequestFromExecutionContext(context);
+}
+
+/**
+ * **Synchronous request extractor** - `extractRequestFromExecutionContext` for param decorators
+ *
+ * Param decorator factories cannot await, so GraphQL support is loaded synchronously.
+ * With Mercurius the request is read from `context.reply.request` when the GraphQL
+ * context has no `req`. Raw `ws` clients have no handshake, so each gets a stand-in
+ * request without headers that holds the state attached by `AuthGuard`.
+ *
+ * @param context - NestJS execution context
+ * @returns Fastify request (the message payload for RPC contexts)
+ */
+export function getRequestFromExecutionContext(context: ExecutionContext): FastifyRequest {
 	const contextType = context.getType<GqlContextType>();
 
 	if (contextType === 'graphql') {
-		// Dynamic import to make @nestjs/graphql optional
+		let graphql: GraphqlModules['@nestjs/graphql'];
 		try {
-			const { GqlExecutionContext } = await import('@nestjs/graphql');
-			const gqlContext = GqlExecutionContext.create(context).getContext();
-			return (gqlContext as { req: FastifyRequest }).req;
+			graphql = requireModule('@nestjs/graphql') as GraphqlModules['@nestjs/graphql'];
 		} catch {
 			throw new Error(
 				'@nestjs/graphql must be installed to use GraphQL context. Install it with: npm install @nestjs/graphql',
 			);
 		}
+		const gqlContext = graphql.GqlExecutionContext.create(context).getContext<{
+			req?: FastifyRequest;
+			reply?: { request: FastifyRequest };
+		}>();
+		return (gqlContext.req ?? gqlContext.reply?.request) as FastifyRequest;
 	}
 
 	if (contextType === 'ws') {
-		return context.switchToWs().getClient<{ handshake: FastifyRequest }>().handshake;
+		const client = context.switchToWs().getClient<{ handshake?: FastifyRequest }>();
+		if (client.handshake) return client.handshake;
+
+		// Raw `ws` clients have no handshake - keep one stand-in request per client
+		let request = wsRequests.get(client);
+		if (!request) {
+			request = { headers: {} } as FastifyRequest;
+			wsRequests.set(client, request);
+		}
+		return request;
 	}
 
 	if (contextType === 'rpc') {
-		return context.switchToRpc().getContext<{ request: FastifyRequest }>().request;
+		// Microservice transports carry no HTTP request - the message payload stands in for it
+		return context.switchToRpc().getData<FastifyRequest>();
 	}
 
 	// Default to HTTP (most common case)
 	return context.switchToHttp().getRequest<FastifyRequest>();
 }
+
+/**
+ * **Role parser** - Split Better Auth role values
+ *
+ * Better Auth's admin and organization plugins persist multiple roles as a
+ * comma-separated string (e.g. `'admin,support'`).
+ *
+ * @param role - Raw role value
+ * @returns List of role names, empty when no role is set
+ */
+export function parseRoles(role: string | null | undefined): string[] {
+	if (!role) return [];
+
+	return role
+		.split(',')
+		.map(value => value.trim())
+		.filter(Boolean);
+}
+
+/**
+ * **User roles** - Read roles stored by Better Auth's admin plugin on `user.role`
+ *
+ * @param user - Authenticated user (or nothing)
+ * @returns List of role names, empty when the user has no role
+ */
+export function getUserRoles(user: User | null | undefined): string[] {
+	return parseRoles((user as { role?: string | null } | null | undefined)?.role);
+}
+
+/**
+ * **Impersonator** - Admin impersonating the session user (Better Auth admin plugin)
+ *
+ * @param session - Authenticated session (or nothing)
+ * @returns The impersonating admin's user id, undefined when not impersonated
+ */
+export function getImpersonator(
+	session: UserSession | JwtSession | RpcSession | null | undefined,
+): string | undefined {
+	return (
+		(session?.session as { impersonatedBy?: string | null } | undefined)?.impersonatedBy ??
+		undefined
+	);
+}
+
+const DURATION_UNITS: Record<string, number> = { s: 1, m: 60, h: 3_600, d: 86_400 };
+
+/**
+ * **Duration parser** - Convert `'30s'`, `'10m'`, `'1h'`, `'7d'` (or seconds) to seconds
+ *
+ * @param duration - Duration string or number of seconds
+ * @returns Duration in seconds
+ * @throws {Error} When the duration format is invalid
+ */
+export function parseDuration(duration: string | number): number {
+	if (typeof duration === 'number') {
+		if (Number.isFinite(duration) && duration >= 0) return duration;
+	} else {
+		const match = /^(\d+)\s*([smhd])?$/.exec(duration.trim());
+		if (match) return Number(match[1]) * DURATION_UNITS[match[2] ?? 's'];
+	}
+
+	throw new Error(
+		`Invalid duration "${duration}". Use seconds or a string like '30s', '10m', '1h', '7d'.`,
+	);
+}
+
+/**
+ * **Trusted origins** - Origins Better Auth trusts for redirects
+ *
+ * The `baseURL` origin plus `trustedOrigins` (static list, or the result of the
+ * trustedOrigins function for the given request).
+ *
+ * @param auth - Better Auth instance
+ * @param request - Web API request passed to function-based trustedOrigins
+ * @returns Trusted origins
+ */
+export async function getTrustedOrigins(auth: Auth, request: Request): Promise<string[]> {
+	const { baseURL, trustedOrigins } = auth.options;
+	const origins =
+		typeof trustedOrigins === 'function' ? await trustedOrigins(request) : trustedOrigins;
+
+	return [...(baseURL ? [new URL(baseURL).origin] : []), ...(origins ?? [])];
+}
+
+/**
+ * **Login redirect** - Login page URL with a `callbackURL` back to the requested page
+ *
+ * The callback is sanitized to a same-origin path (no protocol-relative or absolute URLs)
+ * and only made absolute when the request origin is trusted, so forged `Host` headers
+ * cannot turn the login page into an open redirect.
+ *
+ * @param loginURL - Login page, relative (`'/login'`) or absolute
+ * @param request - Unauthenticated request
+ * @param trustedOrigins - Origins allowed in absolute callback URLs
+ * @returns Redirect location
+ */
+export function buildLoginRedirect(
+	loginURL: string,
+	request: FastifyRequest,
+	trustedOrigins: string[],
+): string {
+	const requested = new URL(request.url, 'http://localhost');
+	const path = `${requested.pathname.replace(/^\/+/, '/')}${requested.search}`;
+
+	const origin = `${request.protocol}://${request.host}`;
+	const callbackURL = trustedOrigins.includes(origin) ? `${origin}${path}` : path;
+
+	const isAbsolute = /^https?:\/\//i.test(loginURL);
+	const target = new URL(loginURL, 'http://localhost');
+	target.searchParams.set('callbackURL', callbackURL);
+
+	return isAbsolute ? target.href : `${target.pathname}${target.search}`;
+}
+
+/**
+ * **GraphQL loader** - Synchronous import keeping GraphQL optional peer dependencies
+ *
+ * Decorators and schema transforms run synchronously, so they cannot use a dynamic import.
+ *
+ * @param id - Package to load
+ * @throws {Error} When the package is not installed
+ */
+export function requireGraphql<T extends keyof GraphqlModules>(id: T): GraphqlModules[T] {
+	try {
+		return requireModule(id) as GraphqlModules[T];
+	} catch {
+		throw new Error(
+			`${id} must be installed to use GraphQL field authorization. Install it with: npm install ${id}`,
+		);
+	}
+}
+
+/**
+ * **Hook path matching** - Compile `@BeforeHook()` / `@AfterHook()` paths into a predicate
+ *
+ * Exact routes and regular expressions are tested as-is; in globs `*` matches within a
+ * path segment and `**` across segments. Hooks declared without paths match every route.
+ *
+ * @param paths - Hook decorator metadata
+ * @returns Predicate tested against the Better Auth route (`ctx.path`)
+ */
+export function createHookPathMatcher(paths: HookPaths | object): (path: string) => boolean {
+	if (!isHookPaths(paths)) return () => true;
+
+	const patterns = ([] as HookPathMatcher[]).concat(paths).map(toPathPattern);
+	return path =>
+		patterns.some(pattern => {
+			pattern.lastIndex = 0;
+			return pattern.test(path);
+		});
+}
+
+function toPathPattern(matcher: HookPathMatcher): RegExp {
+	if (matcher instanceof RegExp) return matcher;
+
+	const source = matcher
+		.split(/(\*\*|\*)/)
+		.map(part =>
+			part === '**' ? '.*' : part === '*' ? '[^/]*' : part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'),
+		)
+		.join('');
+	return new RegExp(`^${source}$`);
+}
+
+/**
+ * **Hook path label** - Human readable hook paths for logs
+ */
+export function describeHookPaths(paths: HookPaths | object): string {
+	return isHookPaths(paths)
+		? ([] as HookPathMatcher[]).concat(paths).map(String).join(', ')
+		: 'global';
+}
+
+/**
+ * Hook decorators called without paths store an empty options object
+ */
+function isHookPaths(paths: HookPaths | object): paths is HookPaths {
+	return typeof paths === 'string' || paths instanceof RegExp || Array.isArray(paths);
+}
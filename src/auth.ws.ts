@@ -0,0 +1,218 @@
+import type { IncomingHttpHeaders } from 'node:http';
+import type { OnModuleDestroy } from '@nestjs/common';
+import type { Auth } from 'better-auth';
+import type { AuthModuleConfig, UserSession } from './types';
+
+import { Inject, Injectable, Logger } from '@nestjs/common';
+
+import { fromNodeHeaders } from 'better-auth/node';
+
+import { AUTH_MODULE_OPTIONS } from './auth.symbols';
+import { parseDuration } from './auth.utils';
+
+/**
+ * **WebSocket client** - Socket.IO sockets and `ws` clients (structural type)
+ */
+export type WsClient = {
+	handshake?: { headers: IncomingHttpHeaders; auth?: Record<string, unknown> };
+	disconnect?: (close?: boolean) => unknown;
+	close?: (code?: number, reason?: string) => unknown;
+	once?: (event: string, listener: () => void) => unknown;
+};
+
+type WsSessionState = {
+	auth: Auth;
+	session: UserSession;
+	headers: Headers;
+	interval?: ReturnType<typeof setInterval>;
+	expiry?: ReturnType<typeof setTimeout>;
+};
+
+const DEFAULT_REVALIDATE_INTERVAL = 300;
+
+/** Longest delay supported by `setTimeout` (~24.8 days) */
+const MAX_TIMEOUT = 2_147_483_647;
+
+/** Close code sent to `ws` clients when their session ends */
+const WS_CLOSE_UNAUTHORIZED = 4401;
+
+const sessions = new WeakMap<WsClient, WsSessionState>();
+
+/**
+ * **Cached WebSocket session** - Session stored on a client by `WsSessionManager`
+ *
+ * @param client - WebSocket client
+ * @param auth - Only return sessions authenticated against this auth instance
+ * @returns The cached session, or undefined when the client is not managed (by `auth`)
+ */
+export function getWsSession(
+	client: WsClient | null | undefined,
+	auth?: Auth,
+): UserSession | undefined {
+	const state = client ? sessions.get(client) : undefined;
+	if (!state || (auth && state.auth !== auth)) return undefined;
+	return state.session;
+}
+
+/**
+ * **WebSocket session manager** - Authenticate gateway connections once
+ *
+ * Authenticates clients from their handshake on connection, caches the session on the
+ * client and keeps it valid for the lifetime of the connection:
+ * - re-validates every `websocket.revalidateInterval` (default: 5 minutes)
+ * - re-validates when the session's `expiresAt` passes
+ * - disconnects clients whose session was revoked or expired
+ *
+ * `AuthGuard` and `@WsSession()` read the cached session instead of calling
+ * `getSession` on every message.
+ *
+ * @example
+ * ```typescript
+ * @WebSocketGateway()
+ * export class ChatGateway implements OnGatewayConnection, OnGatewayDisconnect {
+ *   constructor(private readonly wsSessions: WsSessionManager) {}
+ *
+ *   async handleConnection(client: Socket) {
+ *     await this.wsSessions.authenticate(client); // disconnects unauthenticated clients
+ *   }
+ *
+ *   handleDisconnect(client: Socket) {
+ *     this.wsSessions.release(client);
+ *   }
+ *
+ *   @SubscribeMessage('message')
+ *   onMessage(@WsSession() session: UserSession, @MessageBody() text: string) {
+ *     return { from: session.user.name, text };
+ *   }
+ * }
+ * ```
+ */
+@Injectable()
+export class WsSessionManager implements OnModuleDestroy {
+	private readonly logger = new Logger(WsSessionManager.name);
+	private readonly clients = new Set<WsClient>();
+
+	constructor(
+		@Inject(AUTH_MODULE_OPTIONS)
+		private readonly options: AuthModuleConfig,
+	) {}
+
+	onModuleDestroy(): void {
+		for (const client of this.clients) this.release(client);
+	}
+
+	/**
+	 * Authenticate a client on connection and start session monitoring
+	 *
+	 * @param client - Connecting client (Socket.IO socket or `ws` client)
+	 * @param headers - Handshake headers, required for `ws` clients (pass `request.headers`
+	 * from `handleConnection(client, request)`); read from `client.handshake` otherwise
+	 * @returns The session, or null when the client was disconnected
+	 */
+	async authenticate(client: WsClient, headers?: IncomingHttpHeaders): Promise<UserSession | null> {
+		const sessionHeaders = this.getHandshakeHeaders(client, headers);
+		const session = await this.options.auth.api.getSession({ headers: sessionHeaders });
+		if (!session) {
+			this.disconnect(client);
+			return null;
+		}
+
+		this.release(client);
+		const state: WsSessionState = { auth: this.options.auth, session, headers: sessionHeaders };
+		sessions.set(client, state);
+		this.clients.add(client);
+		client.once?.('disconnect', () => this.release(client));
+		client.once?.('close', () => this.release(client));
+
+		const interval = parseDuration(
+			this.options.websocket?.revalidateInterval ?? DEFAULT_REVALIDATE_INTERVAL,
+		);
+		state.interval = setInterval(() => void this.revalidate(client), interval * 1000);
+		state.interval.unref?.();
+		this.scheduleExpiry(client, state);
+
+		return session;
+	}
+
+	/**
+	 * Re-validate a client's session, disconnecting the client when it was revoked or expired.
+	 * Lookup failures (e.g. database outages) keep the connection open.
+	 *
+	 * @param client - Authenticated client
+	 * @returns Whether the client is still authenticated
+	 */
+	async revalidate(client: WsClient): Promise<boolean> {
+		const state = sessions.get(client);
+		if (!state) return false;
+
+		let session: UserSession | null;
+		try {
+			session = await this.options.auth.api.getSession({
+				headers: state.headers,
+				query: { disableCookieCache: true },
+			});
+		} catch (error) {
+			this.logger.warn(`WebSocket session re-validation failed: ${error}`);
+			return true;
+		}
+
+		if (!session) {
+			this.logger.debug(`Disconnecting WebSocket client of user ${state.session.user.id}`);
+			this.release(client);
+			this.disconnect(client);
+			return false;
+		}
+
+		state.session = session;
+		this.scheduleExpiry(client, state);
+		return true;
+	}
+
+	/**
+	 * Stop monitoring a client (call from `handleDisconnect`)
+	 *
+	 * @param client - Disconnected client
+	 */
+	release(client: WsClient): void {
+		const state = sessions.get(client);
+		if (!state) return;
+
+		clearInterval(state.interval);
+		clearTimeout(state.expiry);
+		sessions.delete(client);
+		this.clients.delete(client);
+	}
+
+	private scheduleExpiry(client: WsClient, state: WsSessionState): void {
+		clearTimeout(state.expiry);
+
+		const delay = new Date(state.session.session.expiresAt).getTime() - Date.now();
+		state.expiry = setTimeout(
+			() => void this.revalidate(client),
+			Math.min(Math.max(delay, 0), MAX_TIMEOUT),
+		);
+		state.expiry.unref?.();
+	}
+
+	/**
+	 * Handshake headers - Socket.IO clients may send a bearer token in `auth.token`
+	 */
+	private getHandshakeHeaders(client: WsClient, headers?: IncomingHttpHeaders): Headers {
+		const result = fromNodeHeaders(headers ?? client.handshake?.headers ?? {});
+
+		const token = client.handshake?.auth?.token;
+		if (typeof token === 'string' && !result.has('authorization')) {
+			result.set('authorization', `Bearer ${token}`);
+		}
+
+		return result;
+	}
+
+	private disconnect(client: WsClient): void {
+		if (client.disconnect) {
+			client.disconnect(true);
+		} else {
+			client.close?.(WS_CLOSE_UNAUTHORIZED, 'Unauthorized');
+		}
+	}
+}
@@ -1,8 +1,18 @@
+export * from './auth.ability';
+export * from './auth.cache';
 export * from './auth.decorators';
+export * from './auth.errors';
+export * from './auth.fastify';
 export * from './auth.filter';
+export * from './auth.graphql';
 export * from './auth.guard';
+export * from './auth.hooks';
+export * from './auth.jwt';
 export * from './auth.module';
 export * from './auth.module-definition';
+export * from './auth.ownership';
+export * from './auth.rpc';
 export * from './auth.service';
 export * from './auth.symbols';
+export * from './auth.ws';
 export * from './types';
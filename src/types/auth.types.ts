@@ -1,6 +1,50 @@
+import type { Type } from '@nestjs/common';
 import type { Auth } from 'better-auth';
 import type { getSession } from 'better-auth/api';
-import type { openAPI } from 'better-auth/plugins';
+import type { apiKey, openAPI } from 'better-auth/plugins';
+import type { Member } from 'better-auth/plugins/organization';
+import type { FastifyRequest } from 'fastify';
+import type { AbilityFactory } from '../auth.ability';
+
+/**
+ * **Auth registration** - Register the type of your Better Auth instance
+ *
+ * Augment this interface once with `typeof auth` and `UserSession`, `User`, `AuthSession`,
+ * `request.user` and `AuthService` reflect the instance's `$Infer.Session` and API -
+ * including `additionalFields` and plugin fields (`role`, `activeOrganizationId`,
+ * `twoFactorEnabled`, ...). Without a registration the base Better Auth types are used.
+ *
+ * @example
+ * ```typescript
+ * // auth.ts
+ * export const auth = betterAuth({
+ *   plugins: [admin(), organization()],
+ *   user: { additionalFields: { locale: { type: 'string' } } },
+ * });
+ *
+ * declare module 'nestjs-better-auth-fastify' {
+ *   interface AuthRegister {
+ *     auth: typeof auth;
+ *   }
+ * }
+ *
+ * // Anywhere in the app
+ * getProfile(@Session() { user }: UserSession) {
+ *   return { role: user.role, locale: user.locale };
+ * }
+ * ```
+ */
+// biome-ignore lint/suspicious/noEmptyInterface: augmented by applications
+export interface AuthRegister {}
+
+/**
+ * **Registered auth** - Better Auth instance type registered with `AuthRegister`
+ *
+ * Falls back to `AuthWithOpenAPI` when no instance is registered.
+ */
+export type RegisteredAuth = AuthRegister extends { auth: infer T extends Auth }
+	? T
+	: AuthWithOpenAPI;
 
 /**
  * **User session** - Complete authenticated session with user data
@@ -9,6 +53,8 @@ import type { openAPI } from 'better-auth/plugins';
  * - `session.user` - User profile (id, email, name, custom fields)
  * - `session.session` - Session metadata (expiresAt, ipAddress, userAgent)
  *
+ * Inferred from the instance registered with {@link AuthRegister}.
+ *
  * **Usage:** Extract with `@Session()` decorator in controllers
  *
  * @example
@@ -27,7 +73,13 @@ import type { openAPI } from 'better-auth/plugins';
  * @see {@link User} for user-only type
  * @see {@link AuthSession} for session metadata type
  */
-export type UserSession = NonNullable<Awaited<ReturnType<ReturnType<typeof getSession>>>>;
+export type UserSession = AuthRegister extends {
+	auth: { $Infer: { Session: infer S extends BaseUserSession } };
+}
+	? S
+	: BaseUserSession;
+
+type BaseUserSession = NonNullable<Awaited<ReturnType<ReturnType<typeof getSession>>>>;
 
 /**
  * **User profile** - Authenticated user data
@@ -83,6 +135,270 @@ export type User = UserSession['user'];
  */
 export type AuthSession = UserSession['session'];
 
+/**
+ * **Permission statements** - Resource to actions map
+ *
+ * Same shape as Better Auth's access control statements created with `createAccessControl`.
+ *
+ * @example
+ * ```typescript
+ * const permissions: PermissionStatements = {
+ *   project: ['create', 'delete'],
+ *   invoice: ['read']
+ * };
+ * ```
+ */
+export type PermissionStatements = Record<string, string[]>;
+
+/**
+ * **Permission requirement** - Metadata stored by `@RequirePermissions()`
+ *
+ * - `permissions` - Required resource actions
+ * - `mode` - `'all'` requires every action, `'any'` requires at least one (default: `'all'`)
+ * - `source` - Plugin used to resolve permissions: `'admin'` (`userHasPermission`) or
+ *   `'organization'` (`hasPermission` on the active organization). Auto-detected when omitted.
+ *
+ * @see {@link RequirePermissions} decorator
+ */
+export interface PermissionRequirement {
+	permissions: PermissionStatements;
+	mode?: 'all' | 'any';
+	source?: 'admin' | 'organization';
+}
+
+/**
+ * **API key** - Verified key from Better Auth's API key plugin
+ *
+ * Attached to `request.apiKey` when `AuthGuard` authenticates a request by API key.
+ *
+ * Contains:
+ * - `userId` - Key owner
+ * - `permissions` - Key scopes as a resource to actions map
+ * - `name`, `prefix`, `expiresAt`, `metadata` - Key details
+ *
+ * @see {@link ApiKey} decorator to extract the key in controllers
+ */
+export type AuthApiKey = NonNullable<
+	Awaited<ReturnType<PluginEndpoints<typeof apiKey>['verifyApiKey']>>['key']
+>;
+
+/**
+ * **Authentication method** - Credentials accepted by a route
+ *
+ * - `'session'` - Better Auth session (cookie or bearer token)
+ * - `'api-key'` - API key verified by Better Auth's API key plugin
+ *
+ * @see {@link AuthMethods} decorator
+ */
+export type AuthMethod = 'session' | 'api-key';
+
+/**
+ * **Hook path matcher** - Better Auth routes a `@BeforeHook()` / `@AfterHook()` runs on
+ *
+ * - `'/sign-up/email'` - exact route
+ * - `'/sign-in/*'` - glob: `*` matches within a path segment, `**` across segments
+ * - `/^\/sign-in\//` - regular expression tested against the route
+ *
+ * @see {@link BeforeHook} decorator
+ * @see {@link AfterHook} decorator
+ */
+export type HookPathMatcher = `/${string}` | RegExp;
+
+/**
+ * **Hook paths** - One or more `HookPathMatcher`s, any of which runs the hook
+ */
+export type HookPaths = HookPathMatcher | readonly HookPathMatcher[];
+
+/**
+ * **Auth request teardown** - Cleanup for request-scoped and transient `@Hook()` providers
+ *
+ * Called once the auth request the instance was resolved for has been handled (for
+ * server-side `auth.api` calls: after their after hooks), e.g. to release connections.
+ * Errors are logged and do not affect the response.
+ *
+ * @example
+ * ```typescript
+ * @Hook()
+ * @Injectable({ scope: Scope.REQUEST })
+ * export class AuditHooks implements OnAuthRequestEnd {
+ *   private readonly entries: string[] = [];
+ *
+ *   constructor(private readonly audit: AuditService) {}
+ *
+ *   @AfterHook('/sign-in/email')
+ *   record(ctx: AuthHookContext) {
+ *     this.entries.push(ctx.path);
+ *   }
+ *
+ *   async onAuthRequestEnd() {
+ *     await this.audit.flush(this.entries);
+ *   }
+ * }
+ * ```
+ */
+export interface OnAuthRequestEnd {
+	onAuthRequestEnd(): unknown;
+}
+
+/**
+ * **Auth endpoints** - Endpoints of the registered auth instance, keyed by API method
+ *
+ * Drops the index signature of `auth.api`, so only known endpoints remain.
+ */
+type AuthEndpoints = {
+	[K in keyof RegisteredAuth['api'] as string extends K ? never : K]: RegisteredAuth['api'][K];
+};
+
+/**
+ * **Auth endpoint** - Endpoint of the registered auth instance served on a route
+ *
+ * Includes plugin endpoints (`PluginEndpoints`) of a registered instance.
+ *
+ * @example
+ * ```typescript
+ * type SignUp = AuthEndpoint<'/sign-up/email'>; // typeof auth.api.signUpEmail
+ * ```
+ */
+export type AuthEndpoint<P extends string> = Extract<
+	AuthEndpoints[keyof AuthEndpoints],
+	{ path: P }
+>;
+
+/**
+ * **Auth endpoint path** - Routes a `@BeforeHook()` / `@AfterHook()` can match
+ *
+ * The routes of the instance registered with {@link AuthRegister} (including plugin
+ * endpoints), or any route when no instance is registered.
+ */
+export type AuthEndpointPath = AuthRegister extends { auth: Auth }
+	? AuthEndpoints[keyof AuthEndpoints]['path']
+	: `/${string}`;
+
+/**
+ * **Auth endpoint body** - Request body accepted by the endpoint of a route
+ *
+ * @example
+ * ```typescript
+ * type SignUpBody = AuthEndpointBody<'/sign-up/email'>; // { name, email, password, ... }
+ * ```
+ */
+export type AuthEndpointBody<P extends string> = EndpointBody<AuthEndpoint<P>>;
+
+/**
+ * **Auth endpoint result** - Value returned by the endpoint of a route
+ *
+ * @example
+ * ```typescript
+ * type SignInResult = AuthEndpointResult<'/sign-in/email'>; // { token, user, ... }
+ * ```
+ */
+export type AuthEndpointResult<P extends string> = EndpointResult<AuthEndpoint<P>>;
+
+type EndpointBody<E> = E extends (...args: infer A) => unknown
+	? NonNullable<A[0]> extends { body?: infer B }
+		? B
+		: undefined
+	: never;
+
+type EndpointResult<E> = E extends (...args: infer _A) => infer R ? Awaited<R> : never;
+
+/**
+ * **Organization membership** - Current user's membership in the active organization
+ *
+ * Loaded by `AuthGuard` for `@RequireOrganization()` routes (once per request) and
+ * returned by the `@ActiveOrganization()` parameter decorator.
+ *
+ * Contains:
+ * - `organizationId` - Active organization identifier
+ * - `userId` - Member user identifier
+ * - `role` - Member role(s), comma-separated when multiple
+ *
+ * @see {@link RequireOrganization} decorator
+ */
+export type OrganizationMember = Member;
+
+/**
+ * **Organization requirement** - Metadata stored by `@RequireOrganization()`
+ *
+ * - `roles` - Organization roles allowed to access the route (any of, optional)
+ *
+ * @see {@link RequireOrganization} decorator
+ */
+export interface OrganizationRequirement {
+	roles?: string[];
+}
+
+/**
+ * **Fresh session requirement** - Metadata stored by `@RequireFreshSession()`
+ *
+ * - `maxAge` - Maximum session age in seconds
+ * - `twoFactorField` - Optional session field holding the last two-factor verification
+ *   timestamp, which must also be within `maxAge`
+ *
+ * @see {@link RequireFreshSession} decorator
+ */
+export interface FreshSessionRequirement {
+	maxAge: number;
+	twoFactorField?: string;
+}
+
+/**
+ * **Ability** - Authorization abilities returned by an `AbilityFactory`
+ *
+ * Structurally compatible with CASL abilities: `subject` is either a subject type
+ * (e.g. `'Invoice'`) or a record instance for record-level checks.
+ *
+ * @see {@link AbilityFactory} to build abilities
+ */
+export interface AuthAbility {
+	can(action: string, subject: unknown, field?: string): boolean;
+}
+
+/**
+ * **Ability requirement** - Metadata stored by `@Can()`
+ *
+ * - `action` - Action to perform (e.g. `'update'`)
+ * - `subject` - Subject type (e.g. `'Invoice'`)
+ * - `field` - Optional field the action applies to
+ *
+ * @see {@link Can} decorator
+ */
+export interface AbilityRequirement {
+	action: string;
+	subject: string;
+	field?: string;
+}
+
+/**
+ * **Ownership resolver** - Finds the user owning a resource for `@OwnedBy()`
+ *
+ * Implement on an `@OwnerResolver()` provider. Return the owner's user id, or
+ * null/undefined when the resource does not exist (the request is then rejected).
+ *
+ * @see {@link OwnedBy} decorator
+ */
+export interface OwnershipResolver {
+	resolveOwner(
+		resourceId: string,
+		request: FastifyRequest,
+	): Promise<string | null | undefined> | string | null | undefined;
+}
+
+/**
+ * **Ownership requirement** - Metadata stored by `@OwnedBy()`
+ *
+ * - `param` - Route parameter holding the resource id (e.g. `'id'`)
+ * - `resolver` - `OwnershipResolver` provider finding the resource owner
+ * - `bypassRoles` - Admin plugin roles allowed to access any resource (default: `['admin']`)
+ *
+ * @see {@link OwnedBy} decorator
+ */
+export interface OwnershipRequirement {
+	param: string;
+	resolver: Type<OwnershipResolver>;
+	bypassRoles?: string[];
+}
+
 /**
  * **Module features** - Control built-in features
  *
@@ -90,15 +406,165 @@ export type AuthSession = UserSession['session'];
  * - `disableExceptionFilter` - Disable automatic error handling (default: false)
  * - `disableGlobalAuthGuard` - Disable automatic route protection (default: false)
  * - `disableTrustedOriginsCors` - Disable automatic CORS setup (default: false)
+ * - `abilityFactory` - `AbilityFactory` provider enabling `@Can()` and `@Ability()` (optional)
+ * - `name` - Register a named instance next to the default one (optional)
  *
  * @see {@link AuthModuleConfig} for complete configuration
  */
 export type AuthModuleFeatures = {
+	name?: string;
 	disableExceptionFilter?: boolean;
 	disableGlobalAuthGuard?: boolean;
 	disableTrustedOriginsCors?: boolean;
+	abilityFactory?: Type<AbilityFactory>;
+};
+
+/**
+ * **JWT verification** - Options for stateless JWT mode
+ *
+ * - `issuer` - Expected `iss` claim (default: auth `baseURL`, required without one)
+ * - `audience` - Expected `aud` claim (default: auth `baseURL`, required without one)
+ * - `jwksRefreshCooldown` - Minimum seconds between JWKS refetches when a token is signed
+ *   with an unknown key, e.g. after key rotation (default: 30)
+ *
+ * @see {@link AuthModuleConfig.jwt}
+ */
+export interface JwtVerificationOptions {
+	issuer?: string;
+	audience?: string | string[];
+	jwksRefreshCooldown?: number;
+}
+
+/**
+ * **JWT session** - Session verified from a Better Auth JWT in stateless JWT mode
+ *
+ * `user` holds the token claims (the session user by default) with `id` from `sub`.
+ * The token only carries the session's user and expiry (`exp`) and, when set, its id
+ * (`jti`): the session `token`, `createdAt`, `updatedAt`, `ipAddress` and `userAgent`
+ * are not available.
+ *
+ * @see {@link JwtVerifier}
+ */
+export type JwtSession = {
+	user: User;
+	session: Pick<AuthSession, 'userId' | 'expiresAt'> & Partial<AuthSession>;
 };
 
+/**
+ * **GraphQL field requirements** - Options for `@AuthField()` and the `@auth` directive
+ *
+ * - `roles` - Admin plugin roles, any of which grants access (omit to only require a session)
+ *
+ * @see {@link authDirectiveTransformer}
+ */
+export interface AuthFieldOptions {
+	roles?: string[];
+}
+
+/**
+ * **Fastify route auth config** - `config.auth` of routes using `fastify.authenticate`
+ *
+ * - `public` - Skip authentication, like `@Public()`
+ * - `optional` - Attach the session when present, like `@Optional()`
+ *
+ * @see {@link createAuthPreHandler}
+ */
+export interface AuthRouteConfig {
+	public?: boolean;
+	optional?: boolean;
+}
+
+/**
+ * **RPC session propagation** - Options for signed session envelopes
+ *
+ * - `secret` - HMAC secret shared by the calling and receiving services
+ *   (default: the Better Auth secret)
+ * - `ttl` - Maximum envelope lifetime, as seconds or a duration string like `'5m'`
+ *   (default: 300, never beyond the session's `expiresAt`)
+ *
+ * @see {@link RpcSessionInterceptor}
+ */
+export interface RpcSessionOptions {
+	secret?: string;
+	ttl?: string | number;
+}
+
+/**
+ * **RPC session envelope** - Identity carried by microservice messages
+ *
+ * - `userId` / `sessionId` - Caller's user and session ids (no session id for callers
+ *   authenticated by a JWT without `jti`)
+ * - `expiresAt` - Envelope expiry (epoch milliseconds)
+ */
+export interface RpcSessionEnvelope {
+	userId: string;
+	sessionId?: string;
+	expiresAt: number;
+}
+
+/**
+ * **RPC session** - Caller session verified from a microservice message envelope
+ *
+ * Envelopes carry only the caller's ids and the expiry, so the other user and session
+ * fields are not available on microservice handlers.
+ *
+ * @see {@link getRpcSession}
+ */
+export type RpcSession = {
+	user: Pick<User, 'id'>;
+	session: Pick<AuthSession, 'userId' | 'expiresAt'> & Partial<Pick<AuthSession, 'id'>>;
+};
+
+/**
+ * **WebSocket sessions** - Options for `WsSessionManager`
+ *
+ * - `revalidateInterval` - How often connected clients' sessions are re-validated, as
+ *   seconds or a duration string like `'5m'` (default: 300)
+ *
+ * @see {@link AuthModuleConfig.websocket}
+ */
+export interface WsSessionOptions {
+	revalidateInterval?: string | number;
+}
+
+/**
+ * **Session cache store** - Pluggable storage for cross-request session caching
+ *
+ * Implement this interface to share cached sessions between instances (e.g. Redis).
+ * Keys are Better Auth session tokens prefixed with the instance name (`default:<token>`
+ * for the unnamed instance); `ttl` is in seconds and never exceeds the session's
+ * remaining lifetime. Stores must return values with `Date` fields intact.
+ *
+ * @example
+ * ```typescript
+ * const redisStore: SessionCacheStore = {
+ *   get: async key => deserialize(await redis.get(`session:${key}`)),
+ *   set: async (key, value, ttl) => void (await redis.set(`session:${key}`, serialize(value), 'EX', ttl)),
+ *   delete: async key => void (await redis.del(`session:${key}`)),
+ * };
+ * ```
+ *
+ * @see {@link MemorySessionCacheStore} for the default in-memory LRU store
+ */
+export interface SessionCacheStore {
+	get(key: string): Promise<UserSession | undefined> | UserSession | undefined;
+	set(key: string, value: UserSession, ttl: number): Promise<void> | void;
+	delete(key: string): Promise<void> | void;
+}
+
+/**
+ * **Session cache** - Options for cross-request session caching
+ *
+ * - `store` - Cache store (default: in-memory LRU with 1000 entries)
+ * - `ttl` - Maximum seconds a session stays cached, bounded by `expiresAt` (default: 60)
+ *
+ * @see {@link AuthModuleConfig.sessionCache}
+ */
+export interface SessionCacheOptions {
+	store?: SessionCacheStore;
+	ttl?: number;
+}
+
 /**
  * **Module configuration** - Complete AuthModule setup
  *
@@ -108,12 +574,43 @@ export type AuthModuleFeatures = {
  * @property disableExceptionFilter - Disable error filter (default: false)
  * @property disableGlobalAuthGuard - Disable global guard (default: false)
  * @property disableTrustedOriginsCors - Disable CORS (default: false)
+ * @property abilityFactory - `AbilityFactory` provider for `@Can()` and `@Ability()` (optional)
+ * @property name - Instance name for applications running several Better Auth instances;
+ * named instances are injected with `@InjectAuth(name)` and selected with `@UseAuth(name)`
+ * @property requireVerifiedEmail - Require `user.emailVerified` on every protected route;
+ * opt out per route with `@RequireVerifiedEmail(false)` (default: false)
+ * @property allowBannedUsers - Let users banned by the admin plugin through; override per
+ * route with `@AllowBanned()` (default: false)
+ * @property allowAnonymous - Let anonymous plugin users through; override per route with
+ * `@AllowAnonymous()` (default: false)
+ * @property loginRedirect - Login page for unauthenticated `text/html` requests, which get a
+ * 302 with a `callbackURL` instead of a JSON 401; override per route with `@LoginRedirect()`
+ * @property apiKeyHeader - Header carrying API keys for `@AuthMethods('api-key')` routes
+ * (default: 'x-api-key')
+ * @property bearer - Enable bearer token mode for the Better Auth bearer plugin: exposes
+ * `set-auth-token` through CORS and authenticates `Authorization: Bearer` requests (default: false)
+ * @property jwt - Verify Better Auth JWT plugin tokens locally against the auth instance JWKS
+ * instead of a database session lookup (default: false)
+ * @property rpc - Signed session envelopes for microservice messages
+ * @property websocket - Session monitoring options for `WsSessionManager` gateway connections
+ * @property sessionCache - Cache sessions across requests, keyed by session token; entries
+ * are invalidated when the auth handler processes sign-out, revocation or session updates (default: false)
  *
  * @see {@link AuthModule.forRoot} for static configuration
  * @see {@link AuthModule.forRootAsync} for async configuration
  */
 export interface AuthModuleConfig<T extends Auth = Auth> extends AuthModuleFeatures {
 	auth: T;
+	requireVerifiedEmail?: boolean;
+	allowBannedUsers?: boolean;
+	allowAnonymous?: boolean;
+	loginRedirect?: string;
+	apiKeyHeader?: string;
+	bearer?: boolean;
+	jwt?: boolean | JwtVerificationOptions;
+	sessionCache?: boolean | SessionCacheOptions;
+	websocket?: WsSessionOptions;
+	rpc?: RpcSessionOptions;
 }
 
 /**
@@ -1,10 +1,30 @@
 import 'fastify';
 
-import type { UserSession } from './auth.types';
+import type { preHandlerAsyncHookHandler } from 'fastify';
+import type {
+	AuthAbility,
+	AuthApiKey,
+	AuthRouteConfig,
+	JwtSession,
+	OrganizationMember,
+	UserSession,
+} from './auth.types';
 
 declare module 'fastify' {
 	interface FastifyRequest {
-		session?: UserSession | null;
+		session?: UserSession | JwtSession | null;
 		user?: UserSession['user'] | null;
+		activeMember?: OrganizationMember | null;
+		apiKey?: AuthApiKey | null;
+		ability?: AuthAbility;
+		impersonatedBy?: string;
+	}
+
+	interface FastifyInstance {
+		authenticate: preHandlerAsyncHookHandler;
+	}
+
+	interface FastifyContextConfig {
+		auth?: AuthRouteConfig;
 	}
 }
@@ -0,0 +1,238 @@
+import type { UserSession } from '../src/types';
+
+import { Logger } from '@nestjs/common';
+
+import { getSessionCache, MemorySessionCacheStore, SessionCache } from '../src/auth.cache';
+import { beforeAll, beforeEach, describe, expect, it, mock } from 'bun:test';
+import { createHmac } from 'node:crypto';
+
+const SECRET = 'a-test-secret-with-at-least-32-characters';
+
+const createSession = (expiresInSeconds = 3600, id = 'session-1') =>
+	({
+		user: { id: 'user-1' },
+		session: { id, token: 'token-1', expiresAt: new Date(Date.now() + expiresInSeconds * 1000) },
+	}) as unknown as UserSession;
+
+const signToken = (token: string, secret = SECRET) =>
+	`${token}.${createHmac('sha256', secret).update(token).digest('base64')}`;
+
+const cookieHeaders = (token: string, signed = signToken(token)) =>
+	new Headers({ cookie: `better-auth.session_token=${encodeURIComponent(signed)}` });
+
+describe('Session cache', () => {
+	beforeAll(() => {
+		Logger.overrideLogger(false);
+	});
+
+	describe('MemorySessionCacheStore', () => {
+		it('should evict the least recently used entry when full', () => {
+			const store = new MemorySessionCacheStore({ maxSize: 2 });
+			store.set('a', createSession(), 60);
+			store.set('b', createSession(), 60);
+			store.get('a');
+			store.set('c', createSession(), 60);
+
+			expect(store.size).toBe(2);
+			expect(store.get('a')).toBeDefined();
+			expect(store.get('b')).toBeUndefined();
+			expect(store.get('c')).toBeDefined();
+		});
+
+		it('should expire entries after their ttl', () => {
+			const store = new MemorySessionCacheStore();
+			store.set('a', createSession(), 0);
+
+			expect(store.get('a')).toBeUndefined();
+			expect(store.size).toBe(0);
+		});
+	});
+
+	describe('SessionCache', () => {
+		let auth: {
+			api: Record<string, unknown>;
+			options: Record<string, unknown>;
+			$context: Promise<{ secret: string }>;
+		};
+		let store: MemorySessionCacheStore;
+		let cache: SessionCache;
+
+		beforeEach(() => {
+			auth = { api: {}, options: {}, $context: Promise.resolve({ secret: SECRET }) };
+			store = new MemorySessionCacheStore();
+			cache = new SessionCache(auth as never, { store });
+		});
+
+		it('should serve repeated lookups from the cache', async () => {
+			const load = mock(() => Promise.resolve(createSession()));
+
+			await cache.getSession(cookieHeaders('token-1'), load);
+			const session = await cache.getSession(cookieHeaders('token-1'), load);
+
+			expect(session?.user.id).toBe('user-1');
+			expect(load).toHaveBeenCalledTimes(1);
+		});
+
+		it('should not serve cached sessions to forged cookie signatures', async () => {
+			const load = mock(() => Promise.resolve(createSession()));
+
+			await cache.getSession(cookieHeaders('token-1'), load);
+			await cache.getSession(cookieHeaders('token-1', 'token-1.forged'), load);
+			await cache.getSession(
+				cookieHeaders('token-1', signToken('token-1', 'another-secret')),
+				load,
+			);
+
+			expect(load).toHaveBeenCalledTimes(3);
+		});
+
+		it('should not cache unsigned bearer tokens', async () => {
+			auth.options = { plugins: [{ id: 'bearer' }] };
+			cache = new SessionCache(auth as never, { store });
+			const load = mock(() => Promise.resolve(createSession()));
+			const headers = new Headers({ authorization: 'Bearer token-1' });
+
+			await cache.getSession(headers, load);
+			await cache.getSession(headers, load);
+
+			expect(load).toHaveBeenCalledTimes(2);
+			expect(store.size).toBe(0);
+		});
+
+		it('should namespace keys by instance name', async () => {
+			const load = () => Promise.resolve(createSession());
+			const adminCache = new SessionCache(auth as never, { store }, 'admin');
+
+			await cache.getSession(cookieHeaders('token-1'), load);
+			await adminCache.getSession(cookieHeaders('token-1'), load);
+			await adminCache.invalidate(['token-1']);
+
+			expect(store.get('default:token-1')).toBeDefined();
+			expect(store.get('admin:token-1')).toBeUndefined();
+		});
+
+		it('should not cache requests without a session token', async () => {
+			const load = mock(() => Promise.resolve(createSession()));
+
+			await cache.getSession(new Headers(), load);
+			await cache.getSession(new Headers(), load);
+
+			expect(load).toHaveBeenCalledTimes(2);
+			expect(store.size).toBe(0);
+		});
+
+		it('should bound the ttl by the session expiry', async () => {
+			const set = mock(() => {});
+			cache = new SessionCache(auth as never, {
+				store: { get: () => undefined, set, delete: () => {} },
+				ttl: 300,
+			});
+
+			await cache.getSession(cookieHeaders('token-1'), () => Promise.resolve(createSession(30)));
+			await cache.getSession(cookieHeaders('token-2'), () => Promise.resolve(createSession(-1)));
+
+			expect(set).toHaveBeenCalledTimes(1);
+			const [key, , ttl] = set.mock.calls[0] as unknown as [string, UserSession, number];
+			expect(key).toBe('default:token-1');
+			expect(ttl).toBeGreaterThan(0);
+			expect(ttl).toBeLessThanOrEqual(30);
+		});
+
+		it('should honor a custom cookie prefix', () => {
+			auth.options = { advanced: { cookiePrefix: 'my-app' } };
+			cache = new SessionCache(auth as never);
+
+			expect(cache.readToken(new Headers({ cookie: 'my-app.session_token=abc.sig' }))).toBe('abc');
+			expect(cache.readToken(cookieHeaders('abc'))).toBeUndefined();
+		});
+
+		it('should read bearer tokens only with the bearer plugin', () => {
+			const headers = new Headers({ authorization: 'Bearer abc.sig' });
+			expect(cache.readToken(headers)).toBeUndefined();
+
+			auth.options = { plugins: [{ id: 'bearer' }] };
+			cache = new SessionCache(auth as never);
+			expect(cache.readToken(headers)).toBe('abc');
+			expect(cache.readToken(new Headers({ authorization: 'Bearer a.b.c' }))).toBeUndefined();
+		});
+
+		it('should treat malformed cookie encodings as missing tokens', async () => {
+			const headers = new Headers({ cookie: 'better-auth.session_token=%E0%A4%A.sig' });
+			const load = mock(() => Promise.resolve(null));
+
+			expect(cache.readToken(headers)).toBeUndefined();
+			expect(await cache.getSession(headers, load)).toBeNull();
+			expect(load).toHaveBeenCalledTimes(1);
+			expect(await cache.collectStaleTokens('POST', '/sign-in/email', headers, undefined)).toEqual(
+				[],
+			);
+		});
+
+		it('should fall back to the session lookup when the store fails', async () => {
+			cache = new SessionCache(auth as never, {
+				store: {
+					get: () => Promise.reject(new Error('connection refused')),
+					set: () => Promise.reject(new Error('connection refused')),
+					delete: () => {},
+				},
+			});
+
+			const session = await cache.getSession(cookieHeaders('token-1'), () =>
+				Promise.resolve(createSession()),
+			);
+
+			expect(session?.user.id).toBe('user-1');
+		});
+
+		describe('collectStaleTokens', () => {
+			it('should collect the current session on mutating requests', async () => {
+				const headers = cookieHeaders('token-1');
+
+				expect(await cache.collectStaleTokens('POST', '/sign-out', headers, undefined)).toEqual([
+					'token-1',
+				]);
+				expect(await cache.collectStaleTokens('GET', '/get-session', headers, undefined)).toEqual(
+					[],
+				);
+				expect(await cache.collectStaleTokens('GET', '/verify-email', headers, undefined)).toEqual([
+					'token-1',
+				]);
+			});
+
+			it('should collect revoked session tokens from the body', async () => {
+				const tokens = await cache.collectStaleTokens('POST', '/revoke-session', new Headers(), {
+					token: 'token-2',
+				});
+
+				expect(tokens).toEqual(['token-2']);
+			});
+
+			it('should list sessions revoked in bulk', async () => {
+				auth.api = {
+					listSessions: mock(() => Promise.resolve([{ token: 'token-1' }, { token: 'token-2' }])),
+					listUserSessions: mock(() => Promise.resolve({ sessions: [{ token: 'token-3' }] })),
+				};
+
+				expect(
+					await cache.collectStaleTokens('POST', '/revoke-sessions', cookieHeaders('token-1'), {}),
+				).toEqual(['token-1', 'token-2']);
+				expect(
+					await cache.collectStaleTokens('POST', '/admin/ban-user', new Headers(), {
+						userId: 'user-2',
+					}),
+				).toEqual(['token-3']);
+			});
+		});
+	});
+
+	describe('getSessionCache', () => {
+		it('should share one cache per auth instance', () => {
+			const auth = { api: {}, options: {} } as never;
+
+			expect(getSessionCache({ auth, sessionCache: true })).toBe(
+				getSessionCache({ auth, sessionCache: {} }) as SessionCache,
+			);
+			expect(getSessionCache({ auth })).toBeUndefined();
+		});
+	});
+});
@@ -1,12 +1,64 @@
 import type { ExecutionContext } from '@nestjs/common';
 
+import { ParseIntPipe } from '@nestjs/common';
+import { ROUTE_ARGS_METADATA } from '@nestjs/common/constants';
 import { Reflector } from '@nestjs/core';
-
-import { AfterHook, BeforeHook, Hook, Optional, Public, Session } from '../src/auth.decorators';
+import { ExecutionContextHost } from '@nestjs/core/helpers/execution-context-host';
+import { Test } from '@nestjs/testing';
+
+import {
+	Ability,
+	ActiveOrganization,
+	AfterHook,
+	ApiKey,
+	BeforeHook,
+	Can,
+	CurrentUser,
+	DenyImpersonation,
+	Hook,
+	Impersonator,
+	InjectAuth,
+	Optional,
+	Public,
+	RequireFreshSession,
+	RequireOrganization,
+	Roles,
+	Session,
+	SessionField,
+	UseAuth,
+} from '../src/auth.decorators';
+import {
+	getRpcSession,
+	RPC_SESSION_KEY,
+	readRpcSession,
+	signSessionEnvelope,
+} from '../src/auth.rpc';
+import { AuthService } from '../src/auth.service';
+import { getAuthServiceToken } from '../src/auth.symbols';
+import { getWsSession, WsSessionManager } from '../src/auth.ws';
 import { describe, expect, it } from 'bun:test';
 
 type MockExecutionContext = Pick<ExecutionContext, 'switchToHttp'>;
 
+const getParamFactory = (decorator: () => ParameterDecorator) => {
+	class TestController {
+		handler(@decorator() _value: unknown) {}
+	}
+	const args = Reflect.getMetadata(ROUTE_ARGS_METADATA, TestController, 'handler');
+	return Object.values<{ factory: (data: unknown, ctx: unknown) => unknown }>(args)[0].factory;
+};
+
+const httpContext = (request: unknown) => ({
+	getType: () => 'http',
+	switchToHttp: () => ({ getRequest: () => request }),
+});
+
+const contextOf = (type: string, args: unknown[]) => {
+	const context = new ExecutionContextHost(args);
+	context.setType(type);
+	return context;
+};
+
 describe('Decorators', () => {
 	describe('@Public()', () => {
 		it('should create reflectable decorator', () => {
@@ -40,6 +92,161 @@ describe('Decorators', () => {
 		});
 	});
 
+	describe('@Roles()', () => {
+		it('should expose a metadata key', () => {
+			expect(typeof Roles).toBe('function');
+			expect(typeof Roles.KEY).toBe('string');
+		});
+
+		it('should store roles as a list on handlers and classes', () => {
+			@Roles('admin')
+			class TestController {
+				@Roles('admin', 'support')
+				getTickets() {}
+			}
+
+			const reflector = new Reflector();
+			expect(reflector.get(Roles.KEY, TestController)).toEqual(['admin']);
+			expect(reflector.get(Roles.KEY, TestController.prototype.getTickets)).toEqual([
+				'admin',
+				'support',
+			]);
+		});
+
+		it('should let handler roles override class roles', () => {
+			@Roles('admin')
+			class TestController {
+				@Roles('support')
+				getTickets() {}
+			}
+
+			const reflector = new Reflector();
+			const roles = reflector.getAllAndOverride(Roles.KEY, [
+				TestController.prototype.getTickets,
+				TestController,
+			]);
+			expect(roles).toEqual(['support']);
+		});
+	});
+
+	describe('@RequireOrganization()', () => {
+		it('should store organization requirement metadata', () => {
+			@RequireOrganization()
+			class TestController {
+				@RequireOrganization({ roles: ['owner', 'admin'] })
+				deleteWorkspace() {}
+			}
+
+			const reflector = new Reflector();
+			expect(reflector.get(RequireOrganization, TestController)).toEqual({});
+			expect(reflector.get(RequireOrganization, TestController.prototype.deleteWorkspace)).toEqual({
+				roles: ['owner', 'admin'],
+			});
+		});
+	});
+
+	describe('@RequireFreshSession()', () => {
+		it('should store max age in seconds', () => {
+			class TestController {
+				@RequireFreshSession('10m')
+				updatePayout() {}
+
+				@RequireFreshSession(90, { twoFactorField: 'twoFactorVerifiedAt' })
+				deleteWorkspace() {}
+			}
+
+			const reflector = new Reflector();
+			expect(reflector.get(RequireFreshSession.KEY, TestController.prototype.updatePayout)).toEqual(
+				{ maxAge: 600 },
+			);
+			expect(
+				reflector.get(RequireFreshSession.KEY, TestController.prototype.deleteWorkspace),
+			).toEqual({ maxAge: 90, twoFactorField: 'twoFactorVerifiedAt' });
+		});
+
+		it('should support seconds, minutes, hours and days', () => {
+			const maxAge = (value: string) => {
+				class TestController {
+					@RequireFreshSession(value)
+					handler() {}
+				}
+				return new Reflector().get(RequireFreshSession.KEY, TestController.prototype.handler)
+					.maxAge;
+			};
+
+			expect(maxAge('30s')).toBe(30);
+			expect(maxAge('45')).toBe(45);
+			expect(maxAge('2h')).toBe(7200);
+			expect(maxAge('1d')).toBe(86_400);
+		});
+
+		it('should reject invalid durations', () => {
+			expect(() => RequireFreshSession('ten minutes')).toThrow('Invalid duration');
+		});
+	});
+
+	describe('@Can()', () => {
+		it('should store the ability requirement', () => {
+			@Can('read', 'Invoice')
+			class TestController {
+				@Can('update', 'Invoice', 'status')
+				updateStatus() {}
+			}
+
+			const reflector = new Reflector();
+			expect(reflector.get(Can.KEY, TestController)).toEqual({
+				action: 'read',
+				subject: 'Invoice',
+				field: undefined,
+			});
+			expect(reflector.get(Can.KEY, TestController.prototype.updateStatus)).toEqual({
+				action: 'update',
+				subject: 'Invoice',
+				field: 'status',
+			});
+		});
+	});
+
+	describe('@DenyImpersonation()', () => {
+		it('should mark routes', () => {
+			class TestController {
+				@DenyImpersonation()
+				changePassword() {}
+			}
+
+			expect(
+				new Reflector().get(DenyImpersonation.KEY, TestController.prototype.changePassword),
+			).toBeDefined();
+		});
+	});
+
+	describe('@Impersonator()', () => {
+		it('should extract the impersonating admin id', () => {
+			const factory = getParamFactory(Impersonator as () => ParameterDecorator);
+			const session = { user: { id: 'user-1' }, session: { impersonatedBy: 'admin-1' } };
+
+			expect(factory(undefined, httpContext({ session }))).toBe('admin-1');
+			expect(factory(undefined, httpContext({ session: { ...session, session: {} } }))).toBe(
+				undefined,
+			);
+			expect(factory(undefined, httpContext({ session: null }))).toBeUndefined();
+		});
+	});
+
+	describe('@Ability()', () => {
+		it('should create parameter decorator', () => {
+			expect(Ability).toBeDefined();
+			expect(typeof Ability).toBe('function');
+		});
+	});
+
+	describe('@ActiveOrganization()', () => {
+		it('should create parameter decorator', () => {
+			expect(ActiveOrganization).toBeDefined();
+			expect(typeof ActiveOrganization).toBe('function');
+		});
+	});
+
 	describe('@Session()', () => {
 		it('should create parameter decorator', () => {
 			expect(Session).toBeDefined();
@@ -70,6 +277,89 @@ describe('Decorators', () => {
 		});
 	});
 
+	describe('Session extraction across contexts', () => {
+		const session = {
+			user: { id: 'user-1', email: 'ada@example.com' },
+			session: { id: 'session-1', expiresAt: new Date('2030-01-01') },
+		};
+
+		const contexts = {
+			http: () => contextOf('http', [{ session }, {}]),
+			graphql: () => contextOf('graphql', [{}, {}, { req: { session } }, {}]),
+			mercurius: () => contextOf('graphql', [{}, {}, { reply: { request: { session } } }, {}]),
+			ws: () => contextOf('ws', [{ handshake: { session } }, {}]),
+		};
+
+		for (const [type, createContext] of Object.entries(contexts)) {
+			it(`should resolve the session in ${type} contexts`, () => {
+				const context = createContext();
+
+				expect(getParamFactory(Session)(undefined, context)).toBe(session);
+				expect(getParamFactory(Session)('user', context)).toBe(session.user);
+				expect(getParamFactory(CurrentUser)(undefined, context)).toBe(session.user);
+				expect(getParamFactory(CurrentUser)('id', context)).toBe('user-1');
+				expect(getParamFactory(SessionField)('expiresAt', context)).toBe(session.session.expiresAt);
+			});
+		}
+
+		it('should fall back to the session cached by WsSessionManager', async () => {
+			const client = { handshake: { headers: {} }, disconnect: () => undefined };
+			const manager = new WsSessionManager({
+				auth: { api: { getSession: () => Promise.resolve(session) } },
+			} as never);
+			await manager.authenticate(client);
+			const context = contextOf('ws', [client, {}]);
+
+			expect(getWsSession(client)).toBe(session as never);
+			expect(getParamFactory(CurrentUser)('email', context)).toBe('ada@example.com');
+			manager.onModuleDestroy();
+		});
+
+		it('should resolve the verified session in rpc contexts', () => {
+			const options = { auth: { options: {} }, rpc: { secret: 'test-secret' } } as never;
+			const data = { page: 1, [RPC_SESSION_KEY]: signSessionEnvelope(session as never, options) };
+			readRpcSession(data, options);
+			const context = contextOf('rpc', [data, {}]);
+
+			expect(getParamFactory(Session)(undefined, context)).toBe(getRpcSession(data));
+			expect(getParamFactory(CurrentUser)('id', context)).toBe('user-1');
+			expect(getParamFactory(CurrentUser)('email', context)).toBeUndefined();
+			expect(getParamFactory(SessionField)('id', context)).toBe('session-1');
+		});
+
+		it('should ignore request fields written to rpc payloads', () => {
+			const context = contextOf('rpc', [
+				{ session, user: session.user, apiKey: { id: 'key-1' }, activeMember: {}, ability: {} },
+				{},
+			]);
+
+			expect(getParamFactory(Session)(undefined, context)).toBeUndefined();
+			expect(getParamFactory(CurrentUser)('id', context)).toBeUndefined();
+			expect(getParamFactory(ApiKey)(undefined, context)).toBeUndefined();
+			expect(getParamFactory(ActiveOrganization)(undefined, context)).toBeUndefined();
+			expect(getParamFactory(Ability)(undefined, context)).toBeUndefined();
+		});
+
+		it('should return undefined without a session', () => {
+			const context = contextOf('http', [{ session: null }, {}]);
+
+			expect(getParamFactory(Session)(undefined, context)).toBeUndefined();
+			expect(getParamFactory(CurrentUser)('id', context)).toBeUndefined();
+			expect(getParamFactory(SessionField)('expiresAt', context)).toBeUndefined();
+		});
+
+		it('should register validation pipes', () => {
+			class TestController {
+				handler(@CurrentUser('id', ParseIntPipe) _userId: number) {}
+			}
+			const args = Reflect.getMetadata(ROUTE_ARGS_METADATA, TestController, 'handler');
+			const [metadata] = Object.values<{ data: unknown; pipes: unknown[] }>(args);
+
+			expect(metadata?.data).toBe('id');
+			expect(metadata?.pipes).toEqual([ParseIntPipe]);
+		});
+	});
+
 	describe('@Hook()', () => {
 		it('should create class decorator', () => {
 			expect(Hook).toBeDefined();
@@ -83,6 +373,48 @@ describe('Decorators', () => {
 				return TestHooks;
 			}).not.toThrow();
 		});
+
+		it('should store the target instance name', () => {
+			@Hook('admin')
+			class AdminHooks {}
+
+			expect(new Reflector().get(Hook, AdminHooks)).toBe('admin');
+		});
+	});
+
+	describe('@UseAuth()', () => {
+		it('should store the instance name', () => {
+			@UseAuth('admin')
+			class AdminController {}
+
+			expect(new Reflector().get(UseAuth, AdminController)).toBe('admin');
+		});
+	});
+
+	describe('@InjectAuth()', () => {
+		it('should inject the service of the named instance', async () => {
+			const adminService = { name: 'admin' };
+			const defaultService = { name: 'default' };
+
+			class Consumer {
+				constructor(
+					@InjectAuth('admin') readonly admin: unknown,
+					@InjectAuth() readonly fallback: unknown,
+				) {}
+			}
+
+			const module = await Test.createTestingModule({
+				providers: [
+					Consumer,
+					{ provide: getAuthServiceToken('admin'), useValue: adminService },
+					{ provide: AuthService, useValue: defaultService },
+				],
+			}).compile();
+			const consumer = module.get(Consumer);
+
+			expect(consumer.admin).toBe(adminService);
+			expect(consumer.fallback).toBe(defaultService);
+		});
 	});
 
 	describe('@BeforeHook()', () => {
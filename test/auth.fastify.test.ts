@@ -0,0 +1,105 @@
+import type { FastifyInstance } from 'fastify';
+import type { UserSession } from '../src/types';
+
+import Fastify from 'fastify';
+
+import { createAuthPreHandler } from '../src/auth.fastify';
+import { afterEach, beforeEach, describe, expect, it, mock } from 'bun:test';
+
+const session = {
+	user: { id: 'user-1' },
+	session: { id: 'session-1', expiresAt: new Date(Date.now() + 3_600_000) },
+} as unknown as UserSession;
+
+describe('createAuthPreHandler', () => {
+	let fastify: FastifyInstance;
+	let getSession: ReturnType<typeof mock>;
+
+	beforeEach(async () => {
+		getSession = mock(() => Promise.resolve(session));
+		fastify = Fastify();
+		fastify.decorate(
+			'authenticate',
+			createAuthPreHandler({ auth: { api: { getSession }, options: {} } } as never),
+		);
+
+		fastify.get('/private', { preHandler: fastify.authenticate }, async request => ({
+			userId: request.user?.id ?? null,
+		}));
+		fastify.get(
+			'/optional',
+			{ preHandler: fastify.authenticate, config: { auth: { optional: true } } },
+			async request => ({ userId: request.user?.id ?? null }),
+		);
+		fastify.get(
+			'/public',
+			{ preHandler: fastify.authenticate, config: { auth: { public: true } } },
+			async request => ({ session: request.session ?? null }),
+		);
+		await fastify.ready();
+	});
+
+	afterEach(async () => {
+		await fastify.close();
+	});
+
+	it('should populate the session and user', async () => {
+		const response = await fastify.inject({ url: '/private', headers: { cookie: 'a=b' } });
+
+		expect(response.statusCode).toBe(200);
+		expect(response.json()).toEqual({ userId: 'user-1' });
+		const [{ headers }] = getSession.mock.calls[0] as [{ headers: Headers }];
+		expect(headers.get('cookie')).toBe('a=b');
+	});
+
+	it('should reject unauthenticated requests in the AuthFilter format', async () => {
+		getSession.mockImplementation(() => Promise.resolve(null));
+
+		const response = await fastify.inject({ url: '/private' });
+
+		expect(response.statusCode).toBe(401);
+		expect(response.json()).toMatchObject({
+			statusCode: 401,
+			message: 'Authentication required to access this resource',
+			path: '/private',
+		});
+	});
+
+	it('should let optional routes through without a session', async () => {
+		getSession.mockImplementation(() => Promise.resolve(null));
+
+		const response = await fastify.inject({ url: '/optional' });
+
+		expect(response.statusCode).toBe(200);
+		expect(response.json()).toEqual({ userId: null });
+	});
+
+	it('should skip authentication on public routes', async () => {
+		const response = await fastify.inject({ url: '/public' });
+
+		expect(response.statusCode).toBe(200);
+		expect(response.json()).toEqual({ session: null });
+		expect(getSession).not.toHaveBeenCalled();
+	});
+
+	it('should build abilities with the given ability factory', async () => {
+		const ability = { can: () => true };
+		const createForUser = mock(() => ability);
+		const app = Fastify();
+		app.decorate(
+			'authenticate',
+			createAuthPreHandler({ auth: { api: { getSession }, options: {} } } as never, {
+				createForUser,
+			}),
+		);
+		app.get('/ability', { preHandler: app.authenticate }, async request => ({
+			hasAbility: request.ability === ability,
+		}));
+
+		const response = await app.inject({ url: '/ability' });
+		await app.close();
+
+		expect(response.json()).toEqual({ hasAbility: true });
+		expect(createForUser).toHaveBeenCalledWith(session);
+	});
+});
@@ -8,6 +8,7 @@ import { beforeEach, describe, expect, it, mock } from 'bun:test';
 interface MockReply {
 	status: ReturnType<typeof mock>;
 	send: ReturnType<typeof mock>;
+	header: ReturnType<typeof mock>;
 	statusCode?: number;
 }
 
@@ -30,6 +31,7 @@ describe('AuthFilter', () => {
 				return this;
 			}),
 			send: mock((body: unknown) => body),
+			header: mock(),
 		};
 
 		mockRequest = {
@@ -121,6 +123,32 @@ describe('AuthFilter', () => {
 			expect(response).toHaveProperty('path');
 		});
 
+		it('should forward extra error details from the body', () => {
+			const error = new APIError('FORBIDDEN', {
+				message: 'Missing required permissions to access this resource',
+				code: 'INSUFFICIENT_PERMISSIONS',
+				missingPermissions: { project: ['delete'] },
+			});
+
+			filter.catch(error, mockHost);
+
+			const response = mockReply.send.mock.calls[0][0];
+			expect(response.error).toBe('INSUFFICIENT_PERMISSIONS');
+			expect(response.missingPermissions).toEqual({ project: ['delete'] });
+		});
+
+		it('should not leak error cause in response', () => {
+			const error = new APIError('INTERNAL_SERVER_ERROR', {
+				message: 'Failed',
+				cause: new Error('database down'),
+			});
+
+			filter.catch(error, mockHost);
+
+			const response = mockReply.send.mock.calls[0][0];
+			expect(response).not.toHaveProperty('cause');
+		});
+
 		it('should handle errors without message', () => {
 			const error = new APIError('INTERNAL_SERVER_ERROR');
 
@@ -172,6 +200,18 @@ describe('AuthFilter', () => {
 		});
 	});
 
+	describe('Redirects', () => {
+		it('should send redirects with their Location header and no body', () => {
+			const error = new APIError('FOUND', undefined, { Location: '/login?callbackURL=%2F' });
+
+			filter.catch(error, mockHost);
+
+			expect(mockReply.status).toHaveBeenCalledWith(302);
+			expect(mockReply.header).toHaveBeenCalledWith('location', '/login?callbackURL=%2F');
+			expect(mockReply.send).toHaveBeenCalledWith();
+		});
+	});
+
 	describe('Edge cases', () => {
 		it('should handle missing error body', () => {
 			const error = {
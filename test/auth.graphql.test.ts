@@ -0,0 +1,212 @@
+import type { GraphQLSchema } from 'graphql';
+
+import {
+	Field,
+	GraphQLSchemaBuilderModule,
+	GraphQLSchemaFactory,
+	ObjectType,
+	Parent,
+	Query,
+	ResolveField,
+	Resolver,
+} from '@nestjs/graphql';
+import { Reflector } from '@nestjs/core';
+import { ExecutionContextHost } from '@nestjs/core/helpers/execution-context-host';
+import { Test } from '@nestjs/testing';
+import { buildSchema, graphql } from 'graphql';
+
+import { AuthField, Optional, Public } from '../src/auth.decorators';
+import { authDirectiveTransformer, authDirectiveTypeDefs } from '../src/auth.graphql';
+import { AuthGuard } from '../src/auth.guard';
+import { beforeAll, describe, expect, it, mock } from 'bun:test';
+
+@ObjectType()
+class Profile {
+	@Field()
+	name!: string;
+
+	@AuthField({ roles: ['admin'] })
+	@Field({ nullable: true })
+	email?: string;
+}
+
+@Resolver(() => Profile)
+class ProfileResolver {
+	@Query(() => Profile)
+	profile(): Profile {
+		return { name: 'Ada', email: 'ada@example.com' };
+	}
+
+	@AuthField()
+	@ResolveField(() => String, { nullable: true })
+	secret(@Parent() profile: Profile): string {
+		return `secret of ${profile.name}`;
+	}
+}
+
+const contextFor = (role?: string | null) => ({
+	req: role === undefined ? {} : { session: { user: { id: 'user-1', role }, session: {} } },
+});
+
+describe('GraphQL field authorization', () => {
+	describe('schema-first @auth directive', () => {
+		const schema = authDirectiveTransformer(
+			buildSchema(`
+				${authDirectiveTypeDefs}
+
+				type Query {
+					profile: Profile
+					report: Report
+				}
+
+				type Profile {
+					name: String
+					email: String @auth(requires: ["admin", "support"])
+					orders: [String] @auth
+				}
+
+				type Report @auth(requires: "admin") {
+					total: Int
+				}
+			`),
+		);
+		const rootValue = {
+			profile: { name: 'Ada', email: 'ada@example.com', orders: ['order-1'] },
+			report: { total: 42 },
+		};
+
+		const run = (source: string, role?: string | null) =>
+			graphql({ schema, source, rootValue, contextValue: contextFor(role) });
+
+		it('should resolve protected fields for users with a required role', async () => {
+			const result = await run('{ profile { name email orders } }', 'user,support');
+
+			expect(result.errors).toBeUndefined();
+			expect(result.data).toEqual({
+				profile: { name: 'Ada', email: 'ada@example.com', orders: ['order-1'] },
+			});
+		});
+
+		it('should null unauthorized fields with a FORBIDDEN error', async () => {
+			const result = await run('{ profile { name email orders } }', 'user');
+
+			expect(result.data).toEqual({ profile: { name: 'Ada', email: null, orders: ['order-1'] } });
+			expect(result.errors).toHaveLength(1);
+			expect(result.errors?.[0]?.path).toEqual(['profile', 'email']);
+			expect(result.errors?.[0]?.extensions).toEqual({
+				code: 'FORBIDDEN',
+				reason: 'INSUFFICIENT_ROLE',
+			});
+		});
+
+		it('should null protected fields with an UNAUTHENTICATED error without a session', async () => {
+			const result = await run('{ profile { name orders } }');
+
+			expect(result.data).toEqual({ profile: { name: 'Ada', orders: null } });
+			expect(result.errors?.[0]?.extensions).toEqual({ code: 'UNAUTHENTICATED' });
+		});
+
+		it('should apply type-level requirements to every field', async () => {
+			const result = await run('{ report { total } }', 'user');
+
+			expect(result.data).toEqual({ report: { total: null } });
+			expect(result.errors?.[0]?.path).toEqual(['report', 'total']);
+		});
+
+		it('should read the request from a Mercurius context', async () => {
+			const result = await graphql({
+				schema,
+				source: '{ report { total } }',
+				rootValue,
+				contextValue: { reply: { request: contextFor('admin').req } },
+			});
+
+			expect(result.errors).toBeUndefined();
+			expect(result.data).toEqual({ report: { total: 42 } });
+		});
+	});
+
+	describe('code-first @AuthField()', () => {
+		let schema: GraphQLSchema;
+
+		beforeAll(async () => {
+			const module = await Test.createTestingModule({
+				imports: [GraphQLSchemaBuilderModule],
+			}).compile();
+			const factory = module.get(GraphQLSchemaFactory);
+			schema = authDirectiveTransformer(await factory.create([ProfileResolver]));
+		});
+
+		const run = (role?: string | null) =>
+			graphql({
+				schema,
+				source: '{ profile { name email } }',
+				rootValue: { profile: { name: 'Ada', email: 'ada@example.com' } },
+				contextValue: contextFor(role),
+			});
+
+		it('should store requirements in the field extensions', () => {
+			const profileType = schema.getType('Profile') as { getFields(): Record<string, unknown> };
+			const fields = profileType.getFields() as Record<string, { extensions: unknown }>;
+
+			expect(fields.email?.extensions).toMatchObject({ auth: { roles: ['admin'] } });
+			expect(fields.secret?.extensions).toMatchObject({ auth: {} });
+		});
+
+		it('should enforce field requirements', async () => {
+			const allowed = await run('admin');
+			const denied = await run('user');
+
+			expect(allowed.errors).toBeUndefined();
+			expect((allowed.data?.profile as { email: string }).email).toBe('ada@example.com');
+			expect((denied.data?.profile as { email: string | null }).email).toBeNull();
+			expect(denied.errors?.[0]?.extensions?.code).toBe('FORBIDDEN');
+		});
+
+		describe('behind AuthGuard', () => {
+			class ProfileQueries {
+				@Optional()
+				optionalProfile() {}
+
+				@Public()
+				publicProfile() {}
+			}
+
+			const runGuarded = async (handler: keyof ProfileQueries) => {
+				const getSession = mock(() =>
+					Promise.resolve({ user: { id: 'user-1', role: 'admin' }, session: {} }),
+				);
+				const guard = new AuthGuard(new Reflector(), { auth: { api: { getSession } } } as never);
+				const contextValue = { req: { headers: {} } };
+				const context = new ExecutionContextHost(
+					[{}, {}, contextValue, {}],
+					ProfileQueries,
+					ProfileQueries.prototype[handler],
+				);
+				context.setType('graphql');
+
+				expect(await guard.canActivate(context)).toBe(true);
+				return graphql({
+					schema,
+					source: '{ profile { name email } }',
+					rootValue: { profile: { name: 'Ada', email: 'ada@example.com' } },
+					contextValue,
+				});
+			};
+
+			it('should resolve protected fields of @Optional() operations for signed-in users', async () => {
+				const result = await runGuarded('optionalProfile');
+
+				expect(result.errors).toBeUndefined();
+				expect(result.data).toEqual({ profile: { name: 'Ada', email: 'ada@example.com' } });
+			});
+
+			it('should leave protected fields of @Public() operations UNAUTHENTICATED', async () => {
+				const result = await runGuarded('publicProfile');
+
+				expect(result.data).toEqual({ profile: { name: 'Ada', email: null } });
+				expect(result.errors?.[0]?.extensions).toEqual({ code: 'UNAUTHENTICATED' });
+			});
+		});
+	});
+});
@@ -1,23 +1,59 @@
-import type { ExecutionContext } from '@nestjs/common';
+import type { ExecutionContext, Provider } from '@nestjs/common';
 
 import { Reflector } from '@nestjs/core';
 import { Test } from '@nestjs/testing';
 
 import { APIError } from 'better-auth/api';
 
-import { Optional, Public } from '../src/auth.decorators';
+import { AbilityFactory } from '../src/auth.ability';
+import {
+	AllowAnonymous,
+	AllowBanned,
+	ApiKeyScopes,
+	AuthMethods,
+	Can,
+	DenyImpersonation,
+	LoginRedirect,
+	Optional,
+	OwnedBy,
+	Public,
+	RequireFreshSession,
+	RequireOrganization,
+	RequirePermissions,
+	RequireTwoFactor,
+	RequireVerifiedEmail,
+	Roles,
+	StatefulSession,
+	UseAuth,
+} from '../src/auth.decorators';
+import { AUTH_ERROR_CODES } from '../src/auth.errors';
 import { AuthGuard } from '../src/auth.guard';
-import { AUTH_MODULE_OPTIONS } from '../src/auth.symbols';
+import { getOwnershipResolvers } from '../src/auth.ownership';
+import { AUTH_MODULE_OPTIONS, getAuthOptionsToken } from '../src/auth.symbols';
 import { beforeEach, describe, expect, it, mock } from 'bun:test';
+import { createHmac } from 'node:crypto';
 
 interface MockRequest {
 	headers: Record<string, string>;
 	session: unknown;
 	user: unknown;
+	activeMember?: unknown;
+	apiKey?: unknown;
+	ability?: unknown;
+	params?: Record<string, string>;
+	impersonatedBy?: string;
+	log?: unknown;
+	protocol?: string;
+	host?: string;
+	url?: string;
 }
 
 interface MockAuthApi {
 	getSession: ReturnType<typeof mock>;
+	userHasPermission?: ReturnType<typeof mock>;
+	hasPermission?: ReturnType<typeof mock>;
+	getActiveMember?: ReturnType<typeof mock>;
+	verifyApiKey?: ReturnType<typeof mock>;
 }
 
 type MockExecutionContext = Pick<
@@ -31,6 +67,23 @@ describe('AuthGuard', () => {
 	let mockContext: MockExecutionContext;
 	let mockRequest: MockRequest;
 	let mockAuthApi: MockAuthApi;
+	let findUserById: ReturnType<typeof mock>;
+
+	const createGuard = async (options: Record<string, unknown> = {}, providers: Provider[] = []) => {
+		const auth = {
+			api: mockAuthApi,
+			$context: Promise.resolve({ internalAdapter: { findUserById } }),
+		};
+		const module = await Test.createTestingModule({
+			providers: [
+				AuthGuard,
+				{ provide: Reflector, useValue: reflector },
+				{ provide: AUTH_MODULE_OPTIONS, useValue: { auth, ...options } },
+				...providers,
+			],
+		}).compile();
+		return module.get<AuthGuard>(AuthGuard);
+	};
 
 	beforeEach(async () => {
 		mockRequest = {
@@ -42,29 +95,10 @@ describe('AuthGuard', () => {
 		mockAuthApi = {
 			getSession: mock(() => Promise.resolve(null)),
 		};
+		findUserById = mock((id: string) => Promise.resolve({ id, emailVerified: true }));
 
-		const module = await Test.createTestingModule({
-			providers: [
-				AuthGuard,
-				{
-					provide: Reflector,
-					useValue: {
-						getAllAndOverride: mock(() => false),
-					},
-				},
-				{
-					provide: AUTH_MODULE_OPTIONS,
-					useValue: {
-						auth: {
-							api: mockAuthApi,
-						},
-					},
-				},
-			],
-		}).compile();
-
-		guard = module.get<AuthGuard>(AuthGuard);
-		reflector = module.get<Reflector>(Reflector);
+		reflector = { getAllAndOverride: mock(() => false) } as unknown as Reflector;
+		guard = await createGuard();
 
 		mockContext = {
 			switchToHttp: () => ({
@@ -179,6 +213,1136 @@ describe('AuthGuard', () => {
 		});
 	});
 
+	describe('Bearer token mode', () => {
+		const mockSession = { user: { id: '1' }, session: { id: 'session-1' } };
+
+		beforeEach(() => {
+			reflector.getAllAndOverride = mock(() => undefined);
+			mockAuthApi.getSession = mock(() => Promise.resolve(mockSession));
+		});
+
+		it('should authenticate cookie requests', async () => {
+			mockRequest.headers = { cookie: 'better-auth.session_token=cookie-token' };
+			const bearerGuard = await createGuard({ bearer: true });
+
+			const result = await bearerGuard.canActivate(mockContext);
+
+			expect(result).toBe(true);
+			const { headers } = mockAuthApi.getSession.mock.calls[0][0];
+			expect(headers.get('cookie')).toBe('better-auth.session_token=cookie-token');
+			expect(mockRequest.session).toBe(mockSession);
+		});
+
+		it('should authenticate bearer requests', async () => {
+			mockRequest.headers = { authorization: 'bearer mobile-token' };
+			const bearerGuard = await createGuard({ bearer: true });
+
+			const result = await bearerGuard.canActivate(mockContext);
+
+			expect(result).toBe(true);
+			const { headers } = mockAuthApi.getSession.mock.calls[0][0];
+			expect(headers.get('authorization')).toBe('Bearer mobile-token');
+			expect(mockRequest.session).toBe(mockSession);
+		});
+
+		it('should prefer the bearer token over stale cookies', async () => {
+			mockRequest.headers = {
+				authorization: 'Bearer mobile-token',
+				cookie: 'better-auth.session_token=stale-token',
+			};
+			const bearerGuard = await createGuard({ bearer: true });
+
+			await bearerGuard.canActivate(mockContext);
+
+			const { headers } = mockAuthApi.getSession.mock.calls[0][0];
+			expect(headers.get('cookie')).toBeNull();
+		});
+
+		it('should forward headers untouched when bearer mode is disabled', async () => {
+			mockRequest.headers = {
+				authorization: 'Bearer mobile-token',
+				cookie: 'better-auth.session_token=cookie-token',
+			};
+
+			await guard.canActivate(mockContext);
+
+			const { headers } = mockAuthApi.getSession.mock.calls[0][0];
+			expect(headers.get('cookie')).toBe('better-auth.session_token=cookie-token');
+		});
+	});
+
+	describe('Login redirect', () => {
+		const htmlRequest = (url: string, host = 'app.example.com') => {
+			mockRequest = {
+				headers: { accept: 'text/html,application/xhtml+xml', host },
+				session: null,
+				user: null,
+				protocol: 'https',
+				host,
+				url,
+			};
+		};
+
+		const withLoginRedirect = (loginURL: string | false | undefined) =>
+			mock(decorator => (decorator === LoginRedirect ? loginURL : undefined));
+
+		const createRedirectGuard = (options: Record<string, unknown>) =>
+			createGuard({ auth: { api: mockAuthApi, options }, ...options });
+
+		it('should redirect browsers to the login page with a callbackURL', async () => {
+			htmlRequest('/dashboard?tab=billing');
+			reflector.getAllAndOverride = withLoginRedirect('/login');
+			const redirectGuard = await createRedirectGuard({});
+
+			const error = await redirectGuard.canActivate(mockContext).catch(e => e);
+
+			expect(error.statusCode).toBe(302);
+			expect(error.headers).toEqual({
+				Location: '/login?callbackURL=%2Fdashboard%3Ftab%3Dbilling',
+			});
+		});
+
+		it('should keep JSON errors for API requests', async () => {
+			mockRequest.headers = { accept: 'application/json' };
+			reflector.getAllAndOverride = withLoginRedirect('/login');
+			const redirectGuard = await createRedirectGuard({});
+
+			const error = await redirectGuard.canActivate(mockContext).catch(e => e);
+
+			expect(error.statusCode).toBe(401);
+		});
+
+		it('should use absolute callbacks only for trusted origins', async () => {
+			reflector.getAllAndOverride = mock(() => undefined);
+			const redirectGuard = await createRedirectGuard({
+				loginRedirect: 'https://accounts.example.com/login',
+				trustedOrigins: ['https://app.example.com'],
+			});
+
+			htmlRequest('/orders');
+			const trusted = await redirectGuard.canActivate(mockContext).catch(e => e);
+			expect(trusted.headers.Location).toBe(
+				'https://accounts.example.com/login?callbackURL=https%3A%2F%2Fapp.example.com%2Forders',
+			);
+
+			htmlRequest('/orders', 'evil.example.org');
+			const forged = await redirectGuard.canActivate(mockContext).catch(e => e);
+			expect(forged.headers.Location).toBe(
+				'https://accounts.example.com/login?callbackURL=%2Forders',
+			);
+		});
+
+		it('should sanitize protocol-relative callback paths', async () => {
+			htmlRequest('//evil.example.org/phish');
+			reflector.getAllAndOverride = withLoginRedirect('/login');
+			const redirectGuard = await createRedirectGuard({});
+
+			const error = await redirectGuard.canActivate(mockContext).catch(e => e);
+
+			expect(error.headers.Location).toBe('/login?callbackURL=%2Fphish');
+		});
+
+		it('should let @LoginRedirect(false) opt out of the module default', async () => {
+			htmlRequest('/api/orders');
+			reflector.getAllAndOverride = withLoginRedirect(false);
+			const redirectGuard = await createRedirectGuard({ loginRedirect: '/login' });
+
+			const error = await redirectGuard.canActivate(mockContext).catch(e => e);
+
+			expect(error.statusCode).toBe(401);
+		});
+	});
+
+	describe('Session caching', () => {
+		const validSession = {
+			user: { id: '1' },
+			session: { id: 'session-1', expiresAt: new Date(Date.now() + 60_000) },
+		};
+
+		beforeEach(() => {
+			reflector.getAllAndOverride = mock(() => undefined);
+			mockAuthApi.getSession = mock(() => Promise.resolve(validSession));
+		});
+
+		it('should look up the session once per request', async () => {
+			await guard.canActivate(mockContext);
+			await guard.canActivate(mockContext);
+
+			expect(mockAuthApi.getSession).toHaveBeenCalledTimes(1);
+		});
+
+		it('should share sessions across requests with sessionCache enabled', async () => {
+			const secret = 'a-test-secret-with-at-least-32-characters';
+			const cachingGuard = await createGuard({
+				auth: { api: mockAuthApi, options: {}, $context: Promise.resolve({ secret }) },
+				sessionCache: true,
+			});
+
+			for (const token of ['token-1', 'token-1', 'token-2']) {
+				const signature = createHmac('sha256', secret).update(token).digest('base64');
+				mockRequest = {
+					headers: {
+						cookie: `better-auth.session_token=${encodeURIComponent(`${token}.${signature}`)}`,
+					},
+					session: null,
+					user: null,
+				};
+				expect(await cachingGuard.canActivate(mockContext)).toBe(true);
+				expect(mockRequest.user).toEqual(validSession.user);
+			}
+
+			expect(mockAuthApi.getSession).toHaveBeenCalledTimes(2);
+		});
+
+		it('should look up the session per auth instance', async () => {
+			const adminApi = { getSession: mock(() => Promise.resolve(validSession)) };
+			const adminGuard = await createGuard({ auth: { api: adminApi } });
+
+			await guard.canActivate(mockContext);
+			await adminGuard.canActivate(mockContext);
+
+			expect(mockAuthApi.getSession).toHaveBeenCalledTimes(1);
+			expect(adminApi.getSession).toHaveBeenCalledTimes(1);
+		});
+
+		it('should reject gateway messages after the session is revoked', async () => {
+			const client = { handshake: { headers: { cookie: 'better-auth.session_token=token-1' } } };
+			const wsContext = {
+				switchToWs: () => ({ getClient: () => client, getData: () => ({}) }),
+				getHandler: () => ({}),
+				getClass: () => ({}),
+				getType: () => 'ws',
+			} as unknown as ExecutionContext;
+
+			expect(await guard.canActivate(wsContext)).toBe(true);
+
+			mockAuthApi.getSession = mock(() => Promise.resolve(null));
+			const error = await guard.canActivate(wsContext).catch(e => e);
+
+			expect(error).toBeInstanceOf(APIError);
+			expect(error.statusCode).toBe(401);
+		});
+	});
+
+	describe('Stateless JWT mode', () => {
+		const claims = { id: 'user-1', email: 'jwt@example.com' };
+		let jwtGuard: AuthGuard;
+
+		beforeEach(async () => {
+			const { exportJWK, generateKeyPair, SignJWT } = await import('jose');
+			const { privateKey, publicKey } = await generateKeyPair('EdDSA');
+			const jwk = { ...(await exportJWK(publicKey)), kid: 'key-1' };
+			const token = await new SignJWT(claims)
+				.setProtectedHeader({ alg: 'EdDSA', kid: 'key-1' })
+				.setSubject('user-1')
+				.setIssuedAt()
+				.setIssuer('http://localhost:3000')
+				.setAudience('http://localhost:3000')
+				.setExpirationTime('5m')
+				.sign(privateKey);
+
+			mockRequest.headers = { authorization: `Bearer ${token}` };
+			jwtGuard = await createGuard({
+				auth: {
+					api: { ...mockAuthApi, getJwks: () => Promise.resolve({ keys: [jwk] }) },
+					options: { baseURL: 'http://localhost:3000' },
+				},
+				jwt: true,
+			});
+		});
+
+		it('should verify JWTs locally without a session lookup', async () => {
+			reflector.getAllAndOverride = mock(() => undefined);
+
+			const result = await jwtGuard.canActivate(mockContext);
+
+			expect(result).toBe(true);
+			expect(mockAuthApi.getSession).not.toHaveBeenCalled();
+			expect(mockRequest.user).toMatchObject(claims);
+		});
+
+		it('should force a session lookup on @StatefulSession() routes', async () => {
+			reflector.getAllAndOverride = mock(decorator =>
+				decorator === StatefulSession ? {} : undefined,
+			);
+
+			expect(async () => {
+				await jwtGuard.canActivate(mockContext);
+			}).toThrow(APIError);
+			expect(mockAuthApi.getSession).toHaveBeenCalled();
+		});
+
+		it('should look up the session on @RequireFreshSession() routes', async () => {
+			reflector.getAllAndOverride = mock(decorator =>
+				decorator === RequireFreshSession ? { maxAge: 300 } : undefined,
+			);
+
+			const error = await jwtGuard.canActivate(mockContext).catch(e => e);
+
+			// A freshly minted JWT must not pass as a fresh session
+			expect(error.statusCode).toBe(401);
+			expect(mockAuthApi.getSession).toHaveBeenCalled();
+		});
+
+		it('should treat invalid JWTs as unauthenticated', async () => {
+			reflector.getAllAndOverride = mock(() => undefined);
+			mockRequest.headers = { authorization: 'Bearer invalid.jwt.token' };
+
+			const error = await jwtGuard.canActivate(mockContext).catch(e => e);
+
+			expect(error.statusCode).toBe(401);
+			expect(mockAuthApi.getSession).not.toHaveBeenCalled();
+		});
+	});
+
+	describe('API key authentication', () => {
+		const mockKey = {
+			id: 'key-1',
+			userId: 'owner-1',
+			permissions: { orders: ['read'] },
+		};
+
+		const withMetadata = (metadata: Map<unknown, unknown>) =>
+			mock(decorator => metadata.get(decorator));
+
+		beforeEach(() => {
+			mockAuthApi.verifyApiKey = mock(({ body }: { body: { key: string } }) =>
+				Promise.resolve(
+					body.key === 'valid-key'
+						? { valid: true, error: null, key: mockKey }
+						: { valid: false, error: { code: 'KEY_NOT_FOUND' }, key: null },
+				),
+			);
+		});
+
+		it('should authenticate with x-api-key on api-key routes', async () => {
+			mockRequest.headers = { 'x-api-key': 'valid-key' };
+			reflector.getAllAndOverride = withMetadata(new Map([[AuthMethods, ['api-key']]]));
+
+			const result = await guard.canActivate(mockContext);
+
+			expect(result).toBe(true);
+			expect(mockRequest.apiKey).toBe(mockKey);
+			expect(mockAuthApi.getSession).not.toHaveBeenCalled();
+		});
+
+		it('should reject invalid API keys with INVALID_API_KEY', async () => {
+			mockRequest.headers = { 'x-api-key': 'wrong-key' };
+			reflector.getAllAndOverride = withMetadata(new Map([[AuthMethods, ['api-key']]]));
+
+			const error = await guard.canActivate(mockContext).catch(e => e);
+
+			expect(error.statusCode).toBe(401);
+			expect(error.body.code).toBe(AUTH_ERROR_CODES.INVALID_API_KEY);
+		});
+
+		it('should require an API key on api-key only routes', async () => {
+			reflector.getAllAndOverride = withMetadata(new Map([[AuthMethods, ['api-key']]]));
+
+			const error = await guard.canActivate(mockContext).catch(e => e);
+
+			expect(error.statusCode).toBe(401);
+			expect(mockAuthApi.getSession).not.toHaveBeenCalled();
+		});
+
+		it('should fall back to session when both methods are accepted', async () => {
+			const mockSession = { user: { id: '1' }, session: { id: 'session-1' } };
+			mockAuthApi.getSession = mock(() => Promise.resolve(mockSession));
+			reflector.getAllAndOverride = withMetadata(new Map([[AuthMethods, ['session', 'api-key']]]));
+
+			const result = await guard.canActivate(mockContext);
+
+			expect(result).toBe(true);
+			expect(mockRequest.session).toBe(mockSession);
+			expect(mockAuthApi.verifyApiKey).not.toHaveBeenCalled();
+		});
+
+		it('should ignore API keys on session-only routes', async () => {
+			mockRequest.headers = { 'x-api-key': 'valid-key' };
+			reflector.getAllAndOverride = mock(() => undefined);
+
+			expect(async () => {
+				await guard.canActivate(mockContext);
+			}).toThrow(APIError);
+			expect(mockAuthApi.verifyApiKey).not.toHaveBeenCalled();
+		});
+
+		it('should enforce @ApiKeyScopes()', async () => {
+			mockRequest.headers = { 'x-api-key': 'valid-key' };
+			reflector.getAllAndOverride = withMetadata(
+				new Map<unknown, unknown>([
+					[AuthMethods, ['api-key']],
+					[ApiKeyScopes, ['read:orders', 'write:orders']],
+				]),
+			);
+
+			const error = await guard.canActivate(mockContext).catch(e => e);
+
+			expect(error.statusCode).toBe(403);
+			expect(error.body.code).toBe(AUTH_ERROR_CODES.INSUFFICIENT_API_KEY_SCOPES);
+			expect(error.body.missingScopes).toEqual(['write:orders']);
+		});
+
+		it('should check @Roles() against the key owner', async () => {
+			mockRequest.headers = { 'x-api-key': 'valid-key' };
+			reflector.getAllAndOverride = withMetadata(
+				new Map<unknown, unknown>([
+					[AuthMethods, ['session', 'api-key']],
+					[Roles, ['admin']],
+				]),
+			);
+
+			const error = await guard.canActivate(mockContext).catch(e => e);
+
+			expect(error.statusCode).toBe(403);
+			expect(error.body.code).toBe(AUTH_ERROR_CODES.INSUFFICIENT_ROLE);
+			expect(findUserById).toHaveBeenCalledWith('owner-1');
+
+			findUserById.mockImplementation(() => Promise.resolve({ id: 'owner-1', role: 'admin' }));
+			expect(await guard.canActivate(mockContext)).toBe(true);
+		});
+
+		it('should reject keys of banned owners', async () => {
+			mockRequest.headers = { 'x-api-key': 'valid-key' };
+			reflector.getAllAndOverride = withMetadata(new Map([[AuthMethods, ['api-key']]]));
+			findUserById.mockImplementation(() => Promise.resolve({ id: 'owner-1', banned: true }));
+
+			const error = await guard.canActivate(mockContext).catch(e => e);
+
+			expect(error.statusCode).toBe(403);
+			expect(error.body.code).toBe(AUTH_ERROR_CODES.USER_BANNED);
+		});
+
+		it('should reject keys of deleted owners', async () => {
+			mockRequest.headers = { 'x-api-key': 'valid-key' };
+			reflector.getAllAndOverride = withMetadata(new Map([[AuthMethods, ['api-key']]]));
+			findUserById.mockImplementation(() => Promise.resolve(null));
+
+			const error = await guard.canActivate(mockContext).catch(e => e);
+
+			expect(error.statusCode).toBe(401);
+			expect(error.body.code).toBe(AUTH_ERROR_CODES.INVALID_API_KEY);
+		});
+
+		it('should reject session-only policies on API key requests', async () => {
+			mockRequest.headers = { 'x-api-key': 'valid-key' };
+			reflector.getAllAndOverride = withMetadata(
+				new Map<unknown, unknown>([
+					[AuthMethods, ['session', 'api-key']],
+					[RequirePermissions, { permissions: { orders: ['delete'] } }],
+				]),
+			);
+
+			expect(guard.canActivate(mockContext)).rejects.toThrow(
+				'@RequirePermissions() is not supported for API key requests',
+			);
+		});
+
+		it('should read the key from a configured header', async () => {
+			mockRequest.headers = { 'x-service-token': 'valid-key' };
+			reflector.getAllAndOverride = withMetadata(new Map([[AuthMethods, ['api-key']]]));
+			const headerGuard = await createGuard({ apiKeyHeader: 'X-Service-Token' });
+
+			const result = await headerGuard.canActivate(mockContext);
+
+			expect(result).toBe(true);
+		});
+	});
+
+	describe('Account policies', () => {
+		const unverifiedSession = {
+			user: { id: '1', email: 'test@example.com', emailVerified: false },
+			session: { id: 'session-1' },
+		};
+
+		const withUser = (user: Record<string, unknown>) => {
+			mockAuthApi.getSession = mock(() =>
+				Promise.resolve({ user: { id: '1', ...user }, session: { id: 'session-1' } }),
+			);
+		};
+
+		it('should reject banned users with the reason and expiry', async () => {
+			reflector.getAllAndOverride = mock(() => undefined);
+			const banExpires = new Date(Date.now() + 86_400_000);
+			withUser({ banned: true, banReason: 'Spamming', banExpires });
+
+			const error = await guard.canActivate(mockContext).catch(e => e);
+
+			expect(error.statusCode).toBe(403);
+			expect(error.body).toMatchObject({
+				code: AUTH_ERROR_CODES.USER_BANNED,
+				banReason: 'Spamming',
+				banExpires: banExpires.toISOString(),
+			});
+		});
+
+		it('should let users through once the ban has expired', async () => {
+			reflector.getAllAndOverride = mock(() => undefined);
+			withUser({ banned: true, banExpires: new Date(Date.now() - 1000).toISOString() });
+
+			expect(await guard.canActivate(mockContext)).toBe(true);
+		});
+
+		it('should let banned users reach @AllowBanned() routes', async () => {
+			reflector.getAllAndOverride = mock(decorator => (decorator === AllowBanned ? {} : undefined));
+			withUser({ banned: true, banReason: 'Spamming' });
+
+			expect(await guard.canActivate(mockContext)).toBe(true);
+		});
+
+		it('should enforce bans with @AllowBanned(false) when the module allows them', async () => {
+			const lenientGuard = await createGuard({ allowBannedUsers: true });
+			withUser({ banned: true });
+
+			reflector.getAllAndOverride = mock(() => undefined);
+			expect(await lenientGuard.canActivate(mockContext)).toBe(true);
+
+			mockRequest = { headers: {}, session: null, user: null };
+			reflector.getAllAndOverride = mock(decorator =>
+				decorator === AllowBanned ? false : undefined,
+			);
+			const error = await lenientGuard.canActivate(mockContext).catch(e => e);
+			expect(error.body.code).toBe(AUTH_ERROR_CODES.USER_BANNED);
+		});
+
+		it('should reject anonymous users by default', async () => {
+			reflector.getAllAndOverride = mock(() => undefined);
+			withUser({ isAnonymous: true });
+
+			const error = await guard.canActivate(mockContext).catch(e => e);
+
+			expect(error.statusCode).toBe(403);
+			expect(error.body.code).toBe(AUTH_ERROR_CODES.ANONYMOUS_USER_NOT_ALLOWED);
+		});
+
+		it('should let anonymous users reach @AllowAnonymous() routes', async () => {
+			reflector.getAllAndOverride = mock(decorator =>
+				decorator === AllowAnonymous ? {} : undefined,
+			);
+			withUser({ isAnonymous: true });
+
+			expect(await guard.canActivate(mockContext)).toBe(true);
+		});
+
+		it('should apply the module-level allowAnonymous default', async () => {
+			const guestGuard = await createGuard({ allowAnonymous: true });
+			withUser({ isAnonymous: true });
+
+			reflector.getAllAndOverride = mock(() => undefined);
+			expect(await guestGuard.canActivate(mockContext)).toBe(true);
+
+			mockRequest = { headers: {}, session: null, user: null };
+			reflector.getAllAndOverride = mock(decorator =>
+				decorator === AllowAnonymous ? false : undefined,
+			);
+			const error = await guestGuard.canActivate(mockContext).catch(e => e);
+			expect(error.body.code).toBe(AUTH_ERROR_CODES.ANONYMOUS_USER_NOT_ALLOWED);
+		});
+
+		it('should reject unverified emails on @RequireVerifiedEmail() routes', async () => {
+			reflector.getAllAndOverride = mock(decorator =>
+				decorator === RequireVerifiedEmail ? {} : undefined,
+			);
+			mockAuthApi.getSession = mock(() => Promise.resolve(unverifiedSession));
+
+			const error = await guard.canActivate(mockContext).catch(e => e);
+
+			expect(error.statusCode).toBe(403);
+			expect(error.body.code).toBe(AUTH_ERROR_CODES.EMAIL_NOT_VERIFIED);
+		});
+
+		it('should apply the module-level requireVerifiedEmail default', async () => {
+			reflector.getAllAndOverride = mock(() => undefined);
+			mockAuthApi.getSession = mock(() => Promise.resolve(unverifiedSession));
+			const strictGuard = await createGuard({ requireVerifiedEmail: true });
+
+			const error = await strictGuard.canActivate(mockContext).catch(e => e);
+
+			expect(error.body.code).toBe(AUTH_ERROR_CODES.EMAIL_NOT_VERIFIED);
+		});
+
+		it('should let routes opt out with @RequireVerifiedEmail(false)', async () => {
+			reflector.getAllAndOverride = mock(decorator =>
+				decorator === RequireVerifiedEmail ? false : undefined,
+			);
+			mockAuthApi.getSession = mock(() => Promise.resolve(unverifiedSession));
+			const strictGuard = await createGuard({ requireVerifiedEmail: true });
+
+			const result = await strictGuard.canActivate(mockContext);
+
+			expect(result).toBe(true);
+		});
+
+		it('should require two-factor on @RequireTwoFactor() routes', async () => {
+			reflector.getAllAndOverride = mock(decorator =>
+				decorator === RequireTwoFactor ? {} : undefined,
+			);
+			mockAuthApi.getSession = mock(() =>
+				Promise.resolve({
+					user: { id: '1', emailVerified: true, twoFactorEnabled: false },
+					session: { id: 'session-1' },
+				}),
+			);
+
+			const error = await guard.canActivate(mockContext).catch(e => e);
+			expect(error.body.code).toBe(AUTH_ERROR_CODES.TWO_FACTOR_REQUIRED);
+
+			mockRequest = { headers: {}, session: null, user: null };
+			mockAuthApi.getSession = mock(() =>
+				Promise.resolve({
+					user: { id: '1', emailVerified: true, twoFactorEnabled: true },
+					session: { id: 'session-1' },
+				}),
+			);
+			expect(await guard.canActivate(mockContext)).toBe(true);
+		});
+	});
+
+	describe('Impersonation', () => {
+		const impersonatedSession = {
+			user: { id: 'user-1' },
+			session: { id: 'session-1', impersonatedBy: 'admin-1' },
+		};
+
+		it('should tag impersonated requests', async () => {
+			const child = mock(() => ({ child }));
+			mockRequest.log = { child };
+			reflector.getAllAndOverride = mock(() => undefined);
+			mockAuthApi.getSession = mock(() => Promise.resolve(impersonatedSession));
+
+			expect(await guard.canActivate(mockContext)).toBe(true);
+			expect(mockRequest.impersonatedBy).toBe('admin-1');
+			expect(child).toHaveBeenCalledWith({ impersonatedBy: 'admin-1', userId: 'user-1' });
+
+			await guard.canActivate(mockContext);
+			expect(child).toHaveBeenCalledTimes(1);
+		});
+
+		it('should block impersonated sessions on @DenyImpersonation() routes', async () => {
+			reflector.getAllAndOverride = mock(decorator =>
+				decorator === DenyImpersonation ? {} : undefined,
+			);
+			mockAuthApi.getSession = mock(() => Promise.resolve(impersonatedSession));
+
+			const error = await guard.canActivate(mockContext).catch(e => e);
+
+			expect(error.statusCode).toBe(403);
+			expect(error.body.code).toBe(AUTH_ERROR_CODES.IMPERSONATION_NOT_ALLOWED);
+		});
+
+		it('should allow regular sessions on @DenyImpersonation() routes', async () => {
+			reflector.getAllAndOverride = mock(decorator =>
+				decorator === DenyImpersonation ? {} : undefined,
+			);
+			mockAuthApi.getSession = mock(() =>
+				Promise.resolve({ user: { id: 'user-1' }, session: { id: 'session-1' } }),
+			);
+
+			expect(await guard.canActivate(mockContext)).toBe(true);
+			expect(mockRequest.impersonatedBy).toBeUndefined();
+		});
+	});
+
+	describe('Role-based authorization', () => {
+		const withRoles = (roles: string[]) => mock(decorator => (decorator === Roles ? roles : false));
+
+		it('should allow access when user has a required role', async () => {
+			const mockSession = {
+				user: { id: '1', email: 'admin@example.com', role: 'admin' },
+				session: { id: 'session-1' },
+			};
+
+			reflector.getAllAndOverride = withRoles(['admin', 'support']);
+			mockAuthApi.getSession = mock(() => Promise.resolve(mockSession));
+
+			const result = await guard.canActivate(mockContext);
+
+			expect(result).toBe(true);
+		});
+
+		it('should support comma-separated multi-role values', async () => {
+			const mockSession = {
+				user: { id: '1', email: 'staff@example.com', role: 'user, support' },
+				session: { id: 'session-1' },
+			};
+
+			reflector.getAllAndOverride = withRoles(['support']);
+			mockAuthApi.getSession = mock(() => Promise.resolve(mockSession));
+
+			const result = await guard.canActivate(mockContext);
+
+			expect(result).toBe(true);
+		});
+
+		it('should throw FORBIDDEN when user lacks the required roles', async () => {
+			const mockSession = {
+				user: { id: '1', email: 'test@example.com', role: 'user' },
+				session: { id: 'session-1' },
+			};
+
+			reflector.getAllAndOverride = withRoles(['admin']);
+			mockAuthApi.getSession = mock(() => Promise.resolve(mockSession));
+
+			const error = await guard.canActivate(mockContext).catch(e => e);
+
+			expect(error).toBeInstanceOf(APIError);
+			expect(error.statusCode).toBe(403);
+			expect(error.body.code).toBe('INSUFFICIENT_ROLE');
+		});
+
+		it('should throw FORBIDDEN when user has no role', async () => {
+			const mockSession = {
+				user: { id: '1', email: 'test@example.com' },
+				session: { id: 'session-1' },
+			};
+
+			reflector.getAllAndOverride = withRoles(['admin']);
+			mockAuthApi.getSession = mock(() => Promise.resolve(mockSession));
+
+			expect(async () => {
+				await guard.canActivate(mockContext);
+			}).toThrow(APIError);
+		});
+
+		it('should throw UNAUTHORIZED before checking roles when session is missing', async () => {
+			reflector.getAllAndOverride = withRoles(['admin']);
+			mockAuthApi.getSession = mock(() => Promise.resolve(null));
+
+			const error = await guard.canActivate(mockContext).catch(e => e);
+
+			expect(error.statusCode).toBe(401);
+		});
+	});
+
+	describe('Permission-based authorization', () => {
+		const mockSession = {
+			user: { id: 'user-1', email: 'test@example.com' },
+			session: { id: 'session-1' },
+		};
+
+		const withPermissions = (requirement: unknown) =>
+			mock(decorator => (decorator === RequirePermissions ? requirement : false));
+
+		// Grants only the listed resource actions
+		const grant = (granted: Record<string, string[]>) =>
+			mock(({ body }: { body: { permissions: Record<string, string[]> } }) =>
+				Promise.resolve({
+					success: Object.entries(body.permissions).every(([resource, actions]) =>
+						actions.every(action => granted[resource]?.includes(action)),
+					),
+				}),
+			);
+
+		beforeEach(() => {
+			mockAuthApi.getSession = mock(() => Promise.resolve(mockSession));
+		});
+
+		it('should allow access when all permissions are granted', async () => {
+			reflector.getAllAndOverride = withPermissions({
+				permissions: { project: ['create', 'delete'] },
+			});
+			mockAuthApi.userHasPermission = grant({ project: ['create', 'delete'] });
+
+			const result = await guard.canActivate(mockContext);
+
+			expect(result).toBe(true);
+			expect(mockAuthApi.userHasPermission).toHaveBeenCalledTimes(1);
+			expect(mockAuthApi.userHasPermission.mock.calls[0][0].body).toEqual({
+				permissions: { project: ['create', 'delete'] },
+				userId: 'user-1',
+			});
+		});
+
+		it('should list missing permissions when "all of" check fails', async () => {
+			reflector.getAllAndOverride = withPermissions({
+				permissions: { project: ['create', 'delete'], invoice: ['read'] },
+			});
+			mockAuthApi.userHasPermission = grant({ project: ['create'] });
+
+			const error = await guard.canActivate(mockContext).catch(e => e);
+
+			expect(error).toBeInstanceOf(APIError);
+			expect(error.statusCode).toBe(403);
+			expect(error.body.code).toBe('INSUFFICIENT_PERMISSIONS');
+			expect(error.body.missingPermissions).toEqual({
+				project: ['delete'],
+				invoice: ['read'],
+			});
+		});
+
+		it('should allow access when any permission is granted in "any" mode', async () => {
+			reflector.getAllAndOverride = withPermissions({
+				permissions: { project: ['update'], admin: ['manage'] },
+				mode: 'any',
+			});
+			mockAuthApi.userHasPermission = grant({ admin: ['manage'] });
+
+			const result = await guard.canActivate(mockContext);
+
+			expect(result).toBe(true);
+		});
+
+		it('should throw FORBIDDEN when no permission is granted in "any" mode', async () => {
+			reflector.getAllAndOverride = withPermissions({
+				permissions: { project: ['update'], admin: ['manage'] },
+				mode: 'any',
+			});
+			mockAuthApi.userHasPermission = grant({});
+
+			const error = await guard.canActivate(mockContext).catch(e => e);
+
+			expect(error.statusCode).toBe(403);
+			expect(error.body.missingPermissions).toEqual({
+				project: ['update'],
+				admin: ['manage'],
+			});
+		});
+
+		it('should use organization hasPermission with request headers', async () => {
+			mockRequest.headers = { cookie: 'better-auth.session_token=abc' };
+			reflector.getAllAndOverride = withPermissions({
+				permissions: { member: ['create'] },
+				source: 'organization',
+			});
+			mockAuthApi.userHasPermission = grant({});
+			mockAuthApi.hasPermission = grant({ member: ['create'] });
+
+			const result = await guard.canActivate(mockContext);
+
+			expect(result).toBe(true);
+			expect(mockAuthApi.userHasPermission).not.toHaveBeenCalled();
+			const { body, headers } = mockAuthApi.hasPermission.mock.calls[0][0];
+			expect(body).toEqual({ permissions: { member: ['create'] } });
+			expect(headers.get('cookie')).toBe('better-auth.session_token=abc');
+		});
+
+		it('should fail clearly when no access control plugin is configured', async () => {
+			reflector.getAllAndOverride = withPermissions({ permissions: { project: ['create'] } });
+
+			expect(async () => {
+				await guard.canActivate(mockContext);
+			}).toThrow('@RequirePermissions() requires');
+		});
+	});
+
+	describe('Organization-scoped routes', () => {
+		const mockSession = {
+			user: { id: 'user-1', email: 'test@example.com' },
+			session: { id: 'session-1', activeOrganizationId: 'org-1' },
+		};
+
+		const mockMember = {
+			id: 'member-1',
+			organizationId: 'org-1',
+			userId: 'user-1',
+			role: 'admin',
+			createdAt: new Date(),
+		};
+
+		const withOrganization = (requirement: unknown) =>
+			mock(decorator => (decorator === RequireOrganization ? requirement : false));
+
+		beforeEach(() => {
+			mockAuthApi.getSession = mock(() => Promise.resolve(mockSession));
+			mockAuthApi.getActiveMember = mock(() => Promise.resolve(mockMember));
+		});
+
+		it('should allow members of the active organization', async () => {
+			reflector.getAllAndOverride = withOrganization({});
+
+			const result = await guard.canActivate(mockContext);
+
+			expect(result).toBe(true);
+			expect(mockRequest.activeMember).toBe(mockMember);
+		});
+
+		it('should check member roles', async () => {
+			reflector.getAllAndOverride = withOrganization({ roles: ['owner'] });
+
+			const error = await guard.canActivate(mockContext).catch(e => e);
+
+			expect(error.statusCode).toBe(403);
+			expect(error.body.code).toBe('INSUFFICIENT_ORGANIZATION_ROLE');
+		});
+
+		it('should allow any of the listed member roles', async () => {
+			reflector.getAllAndOverride = withOrganization({ roles: ['owner', 'admin'] });
+
+			const result = await guard.canActivate(mockContext);
+
+			expect(result).toBe(true);
+		});
+
+		it('should throw FORBIDDEN when no organization is active', async () => {
+			mockAuthApi.getSession = mock(() =>
+				Promise.resolve({ ...mockSession, session: { id: 'session-1' } }),
+			);
+			reflector.getAllAndOverride = withOrganization({});
+
+			const error = await guard.canActivate(mockContext).catch(e => e);
+
+			expect(error.body.code).toBe('NO_ACTIVE_ORGANIZATION');
+			expect(mockAuthApi.getActiveMember).not.toHaveBeenCalled();
+		});
+
+		it('should throw FORBIDDEN when user is not a member', async () => {
+			mockAuthApi.getActiveMember = mock(() => Promise.resolve(null));
+			reflector.getAllAndOverride = withOrganization({});
+
+			const error = await guard.canActivate(mockContext).catch(e => e);
+
+			expect(error.body.code).toBe('NOT_ORGANIZATION_MEMBER');
+		});
+
+		it('should look up membership once per request', async () => {
+			reflector.getAllAndOverride = withOrganization({});
+
+			await guard.canActivate(mockContext);
+			await guard.canActivate(mockContext);
+
+			expect(mockAuthApi.getActiveMember).toHaveBeenCalledTimes(1);
+		});
+	});
+
+	describe('Step-up authentication', () => {
+		const withFreshness = (requirement: unknown) =>
+			mock(decorator => (decorator === RequireFreshSession ? requirement : false));
+
+		const sessionCreatedAgo = (seconds: number, extra: Record<string, unknown> = {}) => ({
+			user: { id: 'user-1', email: 'test@example.com' },
+			session: { id: 'session-1', createdAt: new Date(Date.now() - seconds * 1000), ...extra },
+		});
+
+		it('should allow sessions created within maxAge', async () => {
+			reflector.getAllAndOverride = withFreshness({ maxAge: 600 });
+			mockAuthApi.getSession = mock(() => Promise.resolve(sessionCreatedAgo(60)));
+
+			const result = await guard.canActivate(mockContext);
+
+			expect(result).toBe(true);
+		});
+
+		it('should reject stale sessions with SESSION_NOT_FRESH', async () => {
+			reflector.getAllAndOverride = withFreshness({ maxAge: 600 });
+			mockAuthApi.getSession = mock(() => Promise.resolve(sessionCreatedAgo(3600)));
+
+			const error = await guard.canActivate(mockContext).catch(e => e);
+
+			expect(error).toBeInstanceOf(APIError);
+			expect(error.statusCode).toBe(403);
+			expect(error.body.code).toBe(AUTH_ERROR_CODES.SESSION_NOT_FRESH);
+			expect(error.body.maxAge).toBe(600);
+		});
+
+		it('should require a recent two-factor marker when configured', async () => {
+			reflector.getAllAndOverride = withFreshness({
+				maxAge: 300,
+				twoFactorField: 'twoFactorVerifiedAt',
+			});
+			mockAuthApi.getSession = mock(() => Promise.resolve(sessionCreatedAgo(10)));
+
+			const error = await guard.canActivate(mockContext).catch(e => e);
+			expect(error.body.code).toBe(AUTH_ERROR_CODES.SESSION_NOT_FRESH);
+
+			mockRequest = { headers: {}, session: null, user: null };
+			mockAuthApi.getSession = mock(() =>
+				Promise.resolve(sessionCreatedAgo(10, { twoFactorVerifiedAt: new Date().toISOString() })),
+			);
+			expect(await guard.canActivate(mockContext)).toBe(true);
+		});
+	});
+
+	describe('Resource ownership', () => {
+		class InvoiceOwnerResolver {
+			resolveOwner = mock((id: string) => (id === 'invoice-1' ? 'owner-1' : undefined));
+		}
+		let resolver: InvoiceOwnerResolver;
+		let auth: { api: MockAuthApi };
+		let ownershipGuard: AuthGuard;
+
+		const withUser = (user: Record<string, unknown>) => {
+			mockAuthApi.getSession = mock(() => Promise.resolve({ user, session: { id: 'session-1' } }));
+		};
+
+		beforeEach(async () => {
+			resolver = new InvoiceOwnerResolver();
+			auth = { api: mockAuthApi };
+			getOwnershipResolvers(auth as never).set(InvoiceOwnerResolver, resolver);
+			reflector.getAllAndOverride = mock(decorator =>
+				decorator === OwnedBy ? { param: 'id', resolver: InvoiceOwnerResolver } : undefined,
+			);
+			mockRequest.params = { id: 'invoice-1' };
+
+			ownershipGuard = await createGuard({ auth });
+		});
+
+		it('should allow the resource owner', async () => {
+			withUser({ id: 'owner-1' });
+
+			expect(await ownershipGuard.canActivate(mockContext)).toBe(true);
+			expect(resolver.resolveOwner).toHaveBeenCalledWith('invoice-1', mockRequest);
+		});
+
+		it('should reject other users with NOT_RESOURCE_OWNER', async () => {
+			withUser({ id: 'someone-else' });
+
+			const error = await ownershipGuard.canActivate(mockContext).catch(e => e);
+
+			expect(error.statusCode).toBe(403);
+			expect(error.body.code).toBe(AUTH_ERROR_CODES.NOT_RESOURCE_OWNER);
+		});
+
+		it('should reject missing resources', async () => {
+			withUser({ id: 'owner-1' });
+			mockRequest.params = { id: 'missing' };
+
+			const error = await ownershipGuard.canActivate(mockContext).catch(e => e);
+
+			expect(error.body.code).toBe(AUTH_ERROR_CODES.NOT_RESOURCE_OWNER);
+		});
+
+		it('should let admins bypass the ownership check', async () => {
+			withUser({ id: 'admin-1', role: 'user,admin' });
+
+			expect(await ownershipGuard.canActivate(mockContext)).toBe(true);
+			expect(resolver.resolveOwner).not.toHaveBeenCalled();
+		});
+
+		it('should honor custom bypass roles', async () => {
+			withUser({ id: 'admin-1', role: 'admin' });
+			reflector.getAllAndOverride = mock(decorator =>
+				decorator === OwnedBy
+					? { param: 'id', resolver: InvoiceOwnerResolver, bypassRoles: ['support'] }
+					: undefined,
+			);
+
+			const error = await ownershipGuard.canActivate(mockContext).catch(e => e);
+
+			expect(error.body.code).toBe(AUTH_ERROR_CODES.NOT_RESOURCE_OWNER);
+		});
+
+		it('should require the resolver to be registered', async () => {
+			withUser({ id: 'owner-1' });
+
+			expect(guard.canActivate(mockContext)).rejects.toThrow(
+				'Ownership resolver InvoiceOwnerResolver is not registered',
+			);
+		});
+	});
+
+	describe('Policy-based authorization', () => {
+		const invoiceAbility = {
+			can: mock((action: string, subject: string) => subject === 'Invoice' && action === 'read'),
+		};
+		let abilityFactory: { createForUser: ReturnType<typeof mock> };
+		let policyGuard: AuthGuard;
+
+		beforeEach(async () => {
+			abilityFactory = { createForUser: mock(() => invoiceAbility) };
+			mockAuthApi.getSession = mock(() =>
+				Promise.resolve({ user: { id: '1', role: 'accountant' }, session: { id: 'session-1' } }),
+			);
+
+			policyGuard = await createGuard({}, [{ provide: AbilityFactory, useValue: abilityFactory }]);
+		});
+
+		const withAbility = (action: string, subject: string) =>
+			mock(decorator => (decorator === Can ? { action, subject } : undefined));
+
+		it('should allow users with the required ability', async () => {
+			reflector.getAllAndOverride = withAbility('read', 'Invoice');
+
+			expect(await policyGuard.canActivate(mockContext)).toBe(true);
+			expect(invoiceAbility.can).toHaveBeenCalledWith('read', 'Invoice', undefined);
+			expect(mockRequest.ability).toBe(invoiceAbility);
+		});
+
+		it('should reject users without the ability with ACTION_NOT_ALLOWED', async () => {
+			reflector.getAllAndOverride = withAbility('update', 'Invoice');
+
+			const error = await policyGuard.canActivate(mockContext).catch(e => e);
+
+			expect(error.statusCode).toBe(403);
+			expect(error.body).toMatchObject({
+				code: AUTH_ERROR_CODES.ACTION_NOT_ALLOWED,
+				action: 'update',
+				subject: 'Invoice',
+			});
+		});
+
+		it('should build abilities once per request', async () => {
+			reflector.getAllAndOverride = withAbility('read', 'Invoice');
+
+			await policyGuard.canActivate(mockContext);
+			await policyGuard.canActivate(mockContext);
+
+			expect(abilityFactory.createForUser).toHaveBeenCalledTimes(1);
+			expect(abilityFactory.createForUser.mock.calls[0][0].user.id).toBe('1');
+		});
+
+		it('should build abilities for @Ability() on routes without @Can()', async () => {
+			reflector.getAllAndOverride = mock(() => undefined);
+
+			expect(await policyGuard.canActivate(mockContext)).toBe(true);
+			expect(mockRequest.ability).toBe(invoiceAbility);
+		});
+
+		it('should require an ability factory for @Can() routes', async () => {
+			reflector.getAllAndOverride = withAbility('read', 'Invoice');
+			mockAuthApi.getSession = mock(() =>
+				Promise.resolve({ user: { id: '1' }, session: { id: 'session-1' } }),
+			);
+
+			expect(guard.canActivate(mockContext)).rejects.toThrow('requires an ability factory');
+		});
+	});
+
+	describe('Named instances', () => {
+		let adminApi: MockAuthApi;
+		let instanceGuard: AuthGuard;
+
+		beforeEach(async () => {
+			adminApi = {
+				getSession: mock(() =>
+					Promise.resolve({ user: { id: 'admin-1' }, session: { id: 'admin-session' } }),
+				),
+			};
+
+			instanceGuard = await createGuard({}, [
+				{ provide: getAuthOptionsToken('admin'), useValue: { auth: { api: adminApi } } },
+			]);
+		});
+
+		const useAuth = (name: string) => mock(decorator => (decorator === UseAuth ? name : undefined));
+
+		it('should validate @UseAuth() routes against the named instance', async () => {
+			reflector.getAllAndOverride = useAuth('admin');
+
+			expect(await instanceGuard.canActivate(mockContext)).toBe(true);
+			expect(adminApi.getSession).toHaveBeenCalledTimes(1);
+			expect(mockAuthApi.getSession).not.toHaveBeenCalled();
+			expect((mockRequest.user as { id: string }).id).toBe('admin-1');
+		});
+
+		it('should reject sessions unknown to the named instance', async () => {
+			reflector.getAllAndOverride = useAuth('admin');
+			adminApi.getSession = mock(() => Promise.resolve(null));
+			mockAuthApi.getSession = mock(() =>
+				Promise.resolve({ user: { id: '1' }, session: { id: 'session-1' } }),
+			);
+
+			expect(instanceGuard.canActivate(mockContext)).rejects.toThrow(APIError);
+		});
+
+		it('should reject unregistered instance names', async () => {
+			reflector.getAllAndOverride = useAuth('partners');
+
+			expect(instanceGuard.canActivate(mockContext)).rejects.toThrow(
+				"requires an auth instance registered with AuthModule.forRoot({ name: 'partners' })",
+			);
+		});
+	});
+
 	describe('Performance optimization', () => {
 		it('should exit early for public routes without session lookup', async () => {
 			reflector.getAllAndOverride = mock(() => true);
@@ -0,0 +1,369 @@
+import type { ContextId } from '@nestjs/core';
+import type { NestFastifyApplication } from '@nestjs/platform-fastify';
+import type { Auth } from 'better-auth';
+import type { FastifyRequest } from 'fastify';
+import type { AuthHookContext } from '../src/auth.decorators';
+import type { OnAuthRequestEnd } from '../src/types';
+
+import { Inject, Injectable, Logger, Scope } from '@nestjs/common';
+import { REQUEST } from '@nestjs/core';
+import { FastifyAdapter } from '@nestjs/platform-fastify';
+import { Test } from '@nestjs/testing';
+
+import { betterAuth } from 'better-auth';
+import { memoryAdapter } from 'better-auth/adapters/memory';
+import { createAuthMiddleware } from 'better-auth/api';
+
+import { AfterHook, BeforeHook, Hook } from '../src/auth.decorators';
+import { AuthHookRegistry, getHookRegistry } from '../src/auth.hooks';
+import { AuthModule } from '../src/auth.module';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, mock, spyOn } from 'bun:test';
+
+const contextFor = (path: string) =>
+	({ path, headers: new Headers(), context: {} }) as unknown as AuthHookContext;
+
+describe('AuthHookRegistry', () => {
+	let registry: AuthHookRegistry;
+	let calls: string[];
+
+	const record = (name: string, result?: unknown) => () => {
+		calls.push(name);
+		return result;
+	};
+
+	beforeEach(() => {
+		registry = new AuthHookRegistry();
+		calls = [];
+	});
+
+	it('should only run handlers matching the endpoint path', async () => {
+		registry.register('before', '/sign-in/email', record('email'));
+		registry.register('before', '/sign-in/*', record('sign-in'));
+		registry.register('before', '/sign-up/email', record('sign-up'));
+
+		await registry.dispatch('before', contextFor('/sign-in/email'));
+
+		expect(calls).toEqual(['email', 'sign-in']);
+	});
+
+	it('should run higher priorities first and keep registration order for ties', async () => {
+		registry.register('before', {}, record('default'));
+		registry.register('before', {}, record('late'), -10);
+		registry.register('before', {}, record('urgent'), 10);
+		registry.register('before', {}, record('default-2'));
+
+		await registry.dispatch('before', contextFor('/sign-in/email'));
+
+		expect(calls).toEqual(['urgent', 'default', 'default-2', 'late']);
+	});
+
+	it('should keep before and after handlers apart', async () => {
+		registry.register('before', {}, record('before'));
+		registry.register('after', {}, record('after'));
+
+		await registry.dispatch('after', contextFor('/sign-out'));
+
+		expect(calls).toEqual(['after']);
+	});
+
+	it('should merge context results and return them', async () => {
+		registry.register('before', {}, record('a', { context: { body: { email: 'a@example.com' } } }));
+		registry.register('before', {}, record('b', { context: { query: { source: 'hook' } } }));
+
+		const result = await registry.dispatch('before', contextFor('/sign-up/email'));
+
+		expect(result).toEqual({
+			context: { body: { email: 'a@example.com' }, query: { source: 'hook' } },
+		});
+	});
+
+	it('should stop at the first handler returning a response', async () => {
+		const response = { response: 'blocked' };
+		registry.register('before', {}, record('a', response));
+		registry.register('before', {}, record('b'));
+
+		expect(await registry.dispatch('before', contextFor('/sign-up/email'))).toBe(response);
+		expect(calls).toEqual(['a']);
+	});
+
+	it('should rebuild the path index when handlers are registered', async () => {
+		registry.register('before', '/sign-in/*', record('first'));
+		expect(registry.resolve('before', '/sign-in/email')).toHaveLength(1);
+
+		registry.register('before', '/sign-in/email', record('second'));
+
+		expect(registry.resolve('before', '/sign-in/email')).toHaveLength(2);
+	});
+
+	describe('install()', () => {
+		const createAuth = (hooks: Record<string, unknown>) =>
+			({ options: { hooks } }) as unknown as Auth;
+
+		it('should install a single dispatch middleware per hook type', async () => {
+			const hooks: Record<string, (ctx: unknown) => Promise<unknown>> = {};
+			const auth = createAuth(hooks);
+			const registry = getHookRegistry(auth);
+
+			registry.install(auth);
+			const installed = hooks.before;
+			registry.install(auth);
+			registry.register('before', '/sign-in/email', record('hook'));
+
+			expect(getHookRegistry(auth)).toBe(registry);
+			expect(hooks.before).toBe(installed);
+			await hooks.before?.(contextFor('/sign-in/email'));
+			expect(calls).toEqual(['hook']);
+		});
+
+		it('should run configured hooks ahead of decorated hooks of the same priority', async () => {
+			const configured = createAuthMiddleware(async () => {
+				calls.push('configured');
+			});
+			const hooks: Record<string, (ctx: unknown) => Promise<unknown>> = { before: configured };
+			const auth = createAuth(hooks);
+
+			registry.install(auth);
+			registry.register('before', {}, record('decorated'));
+			registry.register('before', {}, record('urgent'), 1);
+			await hooks.before?.(contextFor('/sign-in/email'));
+
+			expect(calls).toEqual(['urgent', 'configured', 'decorated']);
+		});
+
+		it('should run decorated after hooks alongside a configured hooks.after', async () => {
+			const auth = betterAuth({
+				secret: 'a-test-secret-with-at-least-32-characters',
+				baseURL: 'http://localhost:3000',
+				database: memoryAdapter({ user: [], session: [], account: [], verification: [] }),
+				hooks: {
+					after: createAuthMiddleware(async ctx => {
+						calls.push('configured');
+						ctx.setHeader('x-configured', '1');
+					}),
+				},
+			});
+			const registry = getHookRegistry(auth as unknown as Auth);
+
+			registry.install(auth as unknown as Auth);
+			registry.register('after', {}, ctx => {
+				calls.push('decorated');
+				return { response: { replaced: true, returned: ctx.context.returned } };
+			});
+			const { headers, response } = await auth.api.getSession({
+				headers: new Headers(),
+				returnHeaders: true,
+			});
+
+			expect(calls).toEqual(['configured', 'decorated']);
+			expect(response).toEqual({ replaced: true, returned: null } as never);
+			expect(headers.get('x-configured')).toBe('1');
+		});
+	});
+
+	describe('Benchmark', () => {
+		it('should dispatch hundreds of hooks without walking non-matching handlers', async () => {
+			const handlers = Array.from({ length: 500 }, () => mock(() => undefined));
+			handlers.forEach((handler, i) => {
+				registry.register(i % 2 ? 'before' : 'after', `/route-${i}/*`, handler, i % 7);
+			});
+			const global = mock(() => undefined);
+			registry.register('before', {}, global);
+
+			const iterations = 10_000;
+			for (let i = 0; i < iterations; i++) {
+				await registry.dispatch('before', contextFor(`/route-${(i % 250) * 2 + 1}/email`));
+			}
+
+			// Each request runs its own hook plus the global one
+			expect(global).toHaveBeenCalledTimes(iterations);
+			expect(handlers.reduce((total, handler) => total + handler.mock.calls.length, 0)).toBe(
+				iterations,
+			);
+			expect(handlers[0]).not.toHaveBeenCalled();
+		});
+	});
+
+	describe('Request-scoped providers', () => {
+		type HookRun = { hook: string; tenant?: string; contextId: ContextId; instance: object };
+		const runs: HookRun[] = [];
+
+		@Injectable({ scope: Scope.REQUEST })
+		class TenantContext {
+			constructor(@Inject(REQUEST) private readonly request: FastifyRequest) {}
+
+			get tenant() {
+				// Server-side `auth.api` calls have no request
+				return this.request?.headers['x-tenant'] as string | undefined;
+			}
+		}
+
+		@Hook()
+		@Injectable()
+		class TenantHooks {
+			constructor(private readonly tenantContext: TenantContext) {}
+
+			@BeforeHook('/get-session')
+			before(ctx: AuthHookContext) {
+				runs.push({
+					hook: 'before',
+					tenant: this.tenantContext.tenant,
+					contextId: ctx.contextId,
+					instance: this,
+				});
+			}
+
+			@AfterHook('/get-session')
+			after(ctx: AuthHookContext) {
+				runs.push({
+					hook: 'after',
+					tenant: this.tenantContext.tenant,
+					contextId: ctx.contextId,
+					instance: this,
+				});
+			}
+		}
+
+		@Hook()
+		@Injectable({ scope: Scope.TRANSIENT })
+		class TransientHooks {
+			@BeforeHook('/get-session')
+			before(ctx: AuthHookContext) {
+				runs.push({ hook: 'transient', contextId: ctx.contextId, instance: this });
+			}
+		}
+
+		const ended: (ContextId | undefined)[] = [];
+		let failTeardown = false;
+
+		@Hook()
+		@Injectable({ scope: Scope.REQUEST })
+		class AuditHooks implements OnAuthRequestEnd {
+			private contextId?: ContextId;
+
+			@BeforeHook('/get-session')
+			before(ctx: AuthHookContext) {
+				this.contextId = ctx.contextId;
+			}
+
+			onAuthRequestEnd() {
+				ended.push(this.contextId);
+				if (failTeardown) throw new Error('teardown failed');
+			}
+		}
+
+		let app: NestFastifyApplication;
+		let auth: ReturnType<typeof betterAuth>;
+
+		beforeAll(async () => {
+			Logger.overrideLogger(false);
+			auth = betterAuth({
+				secret: 'a-test-secret-with-at-least-32-characters',
+				baseURL: 'http://localhost:3000',
+				database: memoryAdapter({ user: [], session: [], account: [], verification: [] }),
+				hooks: {},
+			});
+
+			const module = await Test.createTestingModule({
+				imports: [AuthModule.forRoot({ auth, disableTrustedOriginsCors: true })],
+				providers: [TenantContext, TenantHooks, TransientHooks, AuditHooks],
+			}).compile();
+			app = module.createNestApplication<NestFastifyApplication>(new FastifyAdapter());
+			await app.init();
+			await app.getHttpAdapter().getInstance().ready();
+		});
+
+		afterAll(async () => {
+			await app.close();
+		});
+
+		beforeEach(() => {
+			runs.length = 0;
+			ended.length = 0;
+			failTeardown = false;
+		});
+
+		const getSession = (tenant: string) =>
+			app.inject({ method: 'GET', url: '/api/auth/get-session', headers: { 'x-tenant': tenant } });
+
+		it('should resolve request-scoped hook providers per auth request', async () => {
+			await getSession('acme');
+			await getSession('globex');
+
+			const scoped = runs.filter(run => run.hook !== 'transient');
+			expect(scoped.map(({ hook, tenant }) => [hook, tenant])).toEqual([
+				['before', 'acme'],
+				['after', 'acme'],
+				['before', 'globex'],
+				['after', 'globex'],
+			]);
+			expect(scoped[0]?.instance).toBe(scoped[1]?.instance as object);
+			expect(scoped[2]?.instance).not.toBe(scoped[0]?.instance as object);
+		});
+
+		it('should expose the request context id to every hook', async () => {
+			await getSession('acme');
+
+			const [transient, before, after] = [
+				runs.find(run => run.hook === 'transient'),
+				runs.find(run => run.hook === 'before'),
+				runs.find(run => run.hook === 'after'),
+			];
+			expect(before?.contextId).toBeDefined();
+			expect(after?.contextId).toBe(before?.contextId as ContextId);
+			expect(transient?.contextId).toBe(before?.contextId as ContextId);
+		});
+
+		it('should share one context id per server-side auth.api call', async () => {
+			await auth.api.getSession({ headers: new Headers() });
+			await auth.api.getSession({ headers: new Headers() });
+
+			const [first, second] = [runs.slice(0, 3), runs.slice(3)];
+			expect(first.map(run => run.hook).sort()).toEqual(['after', 'before', 'transient']);
+			expect(new Set(first.map(run => run.contextId)).size).toBe(1);
+			expect(new Set(second.map(run => run.contextId)).size).toBe(1);
+			expect(second[0]?.contextId).not.toBe(first[0]?.contextId as ContextId);
+		});
+
+		it('should resolve transient hook providers', async () => {
+			await getSession('acme');
+			await getSession('acme');
+
+			const transient = runs.filter(run => run.hook === 'transient');
+			expect(transient).toHaveLength(2);
+			expect(transient[0]?.instance).toBeInstanceOf(TransientHooks);
+			expect(transient[1]?.instance).not.toBe(transient[0]?.instance as object);
+		});
+
+		it('should call onAuthRequestEnd() once the auth request is handled', async () => {
+			await getSession('acme');
+			expect(ended).toEqual([runs.find(run => run.hook === 'before')?.contextId]);
+
+			await getSession('globex');
+			expect(ended).toHaveLength(2);
+			expect(ended[1]).not.toBe(ended[0]);
+		});
+
+		it('should call onAuthRequestEnd() after the hooks of a server-side auth.api call', async () => {
+			await auth.api.getSession({ headers: new Headers() });
+
+			expect(ended).toEqual([runs.find(run => run.hook === 'after')?.contextId]);
+		});
+
+		it('should not fail the auth request when onAuthRequestEnd() throws', async () => {
+			failTeardown = true;
+			const logError = spyOn(Logger.prototype, 'error').mockImplementation(() => {});
+
+			try {
+				const response = await getSession('acme');
+
+				expect(response.statusCode).toBe(200);
+				expect(await auth.api.getSession({ headers: new Headers() })).toBeNull();
+				expect(ended).toHaveLength(2);
+				expect(logError).toHaveBeenCalledTimes(2);
+				expect(logError.mock.calls[0]?.[0]).toContain('onAuthRequestEnd() failed for AuditHooks');
+			} finally {
+				logError.mockRestore();
+			}
+		});
+	});
+});
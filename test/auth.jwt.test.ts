@@ -0,0 +1,160 @@
+import type { JWK } from 'jose';
+
+import { exportJWK, generateKeyPair, SignJWT } from 'jose';
+
+import { getJwtVerifier, JwtVerifier, readJwt } from '../src/auth.jwt';
+import { beforeAll, beforeEach, describe, expect, it, mock } from 'bun:test';
+
+const BASE_URL = 'http://localhost:3000';
+
+interface KeyFixture {
+	privateKey: CryptoKey;
+	jwk: JWK;
+}
+
+const createKey = async (kid: string): Promise<KeyFixture> => {
+	const { privateKey, publicKey } = await generateKeyPair('EdDSA', { extractable: true });
+	const jwk = { ...(await exportJWK(publicKey)), kid, alg: 'EdDSA' };
+	return { privateKey, jwk };
+};
+
+const signToken = (
+	{ privateKey, jwk }: KeyFixture,
+	payload: Record<string, unknown> = {},
+	expiresIn: string | null = '15m',
+) => {
+	const jwt = new SignJWT({
+		id: 'user-1',
+		email: 'test@example.com',
+		name: 'Test User',
+		createdAt: '2025-01-01T00:00:00.000Z',
+		...payload,
+	})
+		.setProtectedHeader({ alg: 'EdDSA', kid: jwk.kid })
+		.setSubject('user-1')
+		.setIssuedAt()
+		.setIssuer(BASE_URL)
+		.setAudience(BASE_URL);
+	return (expiresIn ? jwt.setExpirationTime(expiresIn) : jwt).sign(privateKey);
+};
+
+describe('JwtVerifier', () => {
+	let currentKey: KeyFixture;
+	let rotatedKey: KeyFixture;
+	let jwks: { keys: JWK[] };
+	let auth: { api: { getJwks: ReturnType<typeof mock> }; options: { baseURL: string } };
+
+	beforeAll(async () => {
+		currentKey = await createKey('key-1');
+		rotatedKey = await createKey('key-2');
+	});
+
+	beforeEach(() => {
+		jwks = { keys: [currentKey.jwk] };
+		auth = {
+			api: { getJwks: mock(() => Promise.resolve(jwks)) },
+			options: { baseURL: BASE_URL },
+		};
+	});
+
+	it('should map verified claims to a JwtSession', async () => {
+		const verifier = new JwtVerifier(auth as never);
+
+		const session = await verifier.verify(await signToken(currentKey));
+
+		expect(session.user.id).toBe('user-1');
+		expect(session.user.email).toBe('test@example.com');
+		expect(session.user.createdAt).toEqual(new Date('2025-01-01T00:00:00.000Z'));
+		expect(session.session.userId).toBe('user-1');
+		expect(session.session.expiresAt).toBeInstanceOf(Date);
+		expect(session.session).toEqual({ userId: 'user-1', expiresAt: session.session.expiresAt });
+		expect(session.user).not.toHaveProperty('exp');
+	});
+
+	it('should read the session id from the jti claim', async () => {
+		const verifier = new JwtVerifier(auth as never);
+
+		const session = await verifier.verify(await signToken(currentKey, { jti: 'session-1' }));
+
+		expect(session.session.id).toBe('session-1');
+	});
+
+	it('should fetch the JWKS once and cache it', async () => {
+		const verifier = new JwtVerifier(auth as never);
+
+		await Promise.all([
+			verifier.verify(await signToken(currentKey)),
+			verifier.verify(await signToken(currentKey)),
+		]);
+		await verifier.verify(await signToken(currentKey));
+
+		expect(auth.api.getJwks).toHaveBeenCalledTimes(1);
+	});
+
+	it('should refetch the JWKS when keys are rotated', async () => {
+		const verifier = new JwtVerifier(auth as never, { jwksRefreshCooldown: 0 });
+		await verifier.verify(await signToken(currentKey));
+
+		jwks = { keys: [currentKey.jwk, rotatedKey.jwk] };
+		const session = await verifier.verify(await signToken(rotatedKey));
+
+		expect(session.user.id).toBe('user-1');
+		expect(auth.api.getJwks).toHaveBeenCalledTimes(2);
+	});
+
+	it('should not refetch the JWKS within the cooldown', async () => {
+		const verifier = new JwtVerifier(auth as never, { jwksRefreshCooldown: 60 });
+		await verifier.verify(await signToken(currentKey));
+
+		expect(verifier.verify(await signToken(rotatedKey))).rejects.toThrow();
+		expect(auth.api.getJwks).toHaveBeenCalledTimes(1);
+	});
+
+	it('should reject expired tokens', async () => {
+		const verifier = new JwtVerifier(auth as never);
+		const token = await signToken(currentKey, {}, '-1m');
+
+		expect(verifier.verify(token)).rejects.toThrow();
+	});
+
+	it('should reject tokens without an expiry', async () => {
+		const verifier = new JwtVerifier(auth as never);
+		const token = await signToken(currentKey, {}, null);
+
+		expect(verifier.verify(token)).rejects.toThrow('"exp" claim');
+	});
+
+	it('should reject tokens for another audience', async () => {
+		const verifier = new JwtVerifier(auth as never, { audience: 'internal-services' });
+
+		expect(verifier.verify(await signToken(currentKey))).rejects.toThrow();
+	});
+
+	it('should require an issuer and audience', () => {
+		const withoutBaseURL = { ...auth, options: {} };
+
+		expect(() => new JwtVerifier(withoutBaseURL as never)).toThrow(
+			'JWT mode requires the expected token issuer and audience',
+		);
+		expect(
+			() => new JwtVerifier(withoutBaseURL as never, { issuer: BASE_URL, audience: BASE_URL }),
+		).not.toThrow();
+	});
+
+	it('should share one verifier per auth instance', () => {
+		expect(getJwtVerifier(auth as never)).toBe(getJwtVerifier(auth as never));
+	});
+
+	describe('readJwt', () => {
+		it('should read compact JWTs from the Authorization header', () => {
+			const headers = new Headers({ authorization: 'Bearer a.b.c' });
+			expect(readJwt(headers)).toBe('a.b.c');
+		});
+
+		it('should ignore bearer session tokens and other schemes', () => {
+			expect(readJwt(new Headers({ authorization: 'Bearer token.signature' }))).toBeUndefined();
+			expect(readJwt(new Headers({ authorization: 'Basic a.b.c' }))).toBeUndefined();
+			expect(readJwt(new Headers())).toBeUndefined();
+		});
+	});
+});
@@ -0,0 +1,407 @@
+import type { AuthModuleConfig } from '../src/types';
+
+import { createHmac } from 'node:crypto';
+
+import { Logger } from '@nestjs/common';
+import { APP_FILTER, APP_GUARD, MetadataScanner } from '@nestjs/core';
+
+import { AbilityFactory } from '../src/auth.ability';
+import { getSessionCache, type SessionCache } from '../src/auth.cache';
+import { AfterHook, BeforeHook, Hook, HookPriority, OwnerResolver } from '../src/auth.decorators';
+import { AuthModule } from '../src/auth.module';
+import { getOwnershipResolvers } from '../src/auth.ownership';
+import { AuthService } from '../src/auth.service';
+import { AUTH_MODULE_OPTIONS, getAuthOptionsToken, getAuthServiceToken } from '../src/auth.symbols';
+import { beforeAll, beforeEach, describe, expect, it, mock, spyOn } from 'bun:test';
+
+interface MockFastify {
+	route: ReturnType<typeof mock>;
+	addHook: ReturnType<typeof mock>;
+	decorate: ReturnType<typeof mock>;
+	hasDecorator: ReturnType<typeof mock>;
+}
+
+interface MockHttpAdapter {
+	enableCors: ReturnType<typeof mock>;
+	getInstance: () => MockFastify;
+}
+
+const SECRET = 'better-auth-secret';
+
+describe('AuthModule', () => {
+	let fastify: MockFastify;
+	let httpAdapter: MockHttpAdapter;
+
+	const createModule = (
+		options: Partial<AuthModuleConfig> & {
+			plugins?: unknown[];
+			api?: object;
+			hooks?: Record<string, unknown>;
+			providers?: { metatype: unknown; instance: unknown }[];
+		} = {},
+	) => {
+		const { plugins, api = {}, hooks, providers = [], ...config } = options;
+		const auth = {
+			api,
+			handler: mock(() => Promise.resolve(new Response(null))),
+			options: { trustedOrigins: ['http://localhost:3000'], plugins, hooks },
+			$context: Promise.resolve({ secret: SECRET }),
+		};
+
+		return new AuthModule(
+			{
+				getProviders: () =>
+					providers.map(provider => ({ isDependencyTreeStatic: () => true, ...provider })),
+			} as never,
+			new MetadataScanner(),
+			{ httpAdapter } as never,
+			{ auth, ...config } as never,
+			{} as never,
+			undefined,
+			config.name,
+		);
+	};
+
+	beforeAll(() => {
+		Logger.overrideLogger(false);
+	});
+
+	beforeEach(() => {
+		fastify = {
+			route: mock(),
+			addHook: mock(),
+			decorate: mock(),
+			hasDecorator: mock(() => false),
+		};
+		httpAdapter = { enableCors: mock(), getInstance: () => fastify };
+	});
+
+	describe('Bearer token mode', () => {
+		it('should expose the set-auth-token header through static CORS', () => {
+			createModule({ bearer: true, plugins: [{ id: 'bearer' }] }).configure({} as never);
+
+			const corsOptions = httpAdapter.enableCors.mock.calls[0][0];
+			expect(corsOptions.exposedHeaders).toEqual(['set-auth-token']);
+			expect(corsOptions.allowedHeaders).toContain('Authorization');
+		});
+
+		it('should not expose the token header when bearer mode is disabled', () => {
+			createModule().configure({} as never);
+
+			const corsOptions = httpAdapter.enableCors.mock.calls[0][0];
+			expect(corsOptions.exposedHeaders).toBeUndefined();
+		});
+
+		it('should require the Better Auth bearer plugin', () => {
+			expect(() => createModule({ bearer: true }).configure({} as never)).toThrow(
+				'bearer plugin is not configured',
+			);
+		});
+
+		it('should register the catch-all auth handler', () => {
+			createModule({ bearer: true, plugins: [{ id: 'bearer' }] }).configure({} as never);
+
+			expect(fastify.route).toHaveBeenCalledTimes(1);
+			expect(fastify.route.mock.calls[0][0].url).toBe('/api/auth/*');
+		});
+	});
+
+	describe('Stateless JWT mode', () => {
+		it('should fail on startup without an issuer and audience', () => {
+			expect(() => createModule({ jwt: true }).configure({} as never)).toThrow(
+				'JWT mode requires the expected token issuer and audience',
+			);
+		});
+
+		it('should accept an explicit issuer and audience', () => {
+			const jwt = { issuer: 'https://auth.example.com', audience: 'https://api.example.com' };
+
+			expect(() => createModule({ jwt }).configure({} as never)).not.toThrow();
+		});
+	});
+
+	describe('Fastify preHandler', () => {
+		it('should decorate the Fastify instance with authenticate', () => {
+			createModule().configure({} as never);
+
+			expect(fastify.decorate).toHaveBeenCalledWith('authenticate', expect.any(Function));
+		});
+
+		it('should keep an existing authenticate decorator', () => {
+			fastify.hasDecorator = mock(() => true);
+
+			createModule().configure({} as never);
+
+			expect(fastify.decorate).not.toHaveBeenCalled();
+		});
+	});
+
+	describe('Session cache invalidation', () => {
+		const signature = createHmac('sha256', SECRET).update('token-1').digest('base64');
+		const cookie = `better-auth.session_token=${encodeURIComponent(`token-1.${signature}`)}`;
+
+		const handle = (module: AuthModule, method: string, url: string, body?: unknown) => {
+			module.configure({} as never);
+			const { handler } = fastify.route.mock.calls[0][0];
+			const reply = { status: mock(), header: mock(), send: mock() };
+			return handler(
+				{ method, url, headers: { host: 'localhost', cookie }, body, protocol: 'http' },
+				reply,
+			);
+		};
+
+		it('should invalidate the cached session on sign-out', async () => {
+			const module = createModule({ sessionCache: true });
+			const cache = getSessionCache((module as unknown as { options: AuthModuleConfig }).options);
+			const headers = new Headers({ cookie });
+			await cache?.getSession(headers, () =>
+				Promise.resolve({
+					user: { id: 'user-1' },
+					session: { expiresAt: new Date(Date.now() + 60_000) },
+				} as never),
+			);
+
+			await handle(module, 'POST', '/api/auth/sign-out');
+
+			const load = mock(() => Promise.resolve(null));
+			await cache?.getSession(headers, load);
+			expect(load).toHaveBeenCalledTimes(1);
+		});
+
+		it('should list sessions before they are revoked', async () => {
+			const listSessions = mock(() => Promise.resolve([{ token: 'token-2' }]));
+			const module = createModule({ sessionCache: true, api: { listSessions } });
+			const cache = getSessionCache((module as unknown as { options: AuthModuleConfig }).options);
+			const invalidate = spyOn(cache as SessionCache, 'invalidate');
+
+			await handle(module, 'POST', '/api/auth/revoke-sessions', {});
+
+			expect(listSessions).toHaveBeenCalledTimes(1);
+			expect(invalidate).toHaveBeenCalledWith(['token-1', 'token-2']);
+		});
+	});
+
+	describe('Ability factory', () => {
+		class AppAbilityFactory extends AbilityFactory {
+			createForUser() {
+				return { can: () => true };
+			}
+		}
+
+		it('should register and export the ability factory', () => {
+			const module = AuthModule.forRoot({ auth: {} as never, abilityFactory: AppAbilityFactory });
+
+			expect(module.providers).toContainEqual({
+				provide: AbilityFactory,
+				useClass: AppAbilityFactory,
+			});
+			expect(module.exports).toContain(AbilityFactory);
+		});
+
+		it('should not register a factory by default', () => {
+			const module = AuthModule.forRoot({ auth: {} as never });
+
+			expect(module.exports).not.toContain(AbilityFactory);
+		});
+	});
+
+	describe('Hook path matching', () => {
+		const calls: string[] = [];
+
+		@Hook()
+		class AuditHooks {
+			@BeforeHook('/sign-up/email')
+			exact() {
+				calls.push('exact');
+			}
+
+			@BeforeHook(['/sign-in/*', '/callback/**'])
+			glob() {
+				calls.push('glob');
+			}
+
+			@BeforeHook(/^\/(sign-in|sign-up)\/email$/)
+			regex() {
+				calls.push('regex');
+			}
+
+			@BeforeHook()
+			global() {
+				calls.push('global');
+			}
+
+			@AfterHook('/sign-in/*')
+			after() {
+				calls.push('after');
+			}
+		}
+
+		const runHooks = async (path: string) => {
+			const hooks: Record<string, (ctx: unknown) => Promise<unknown>> = {};
+			createModule({
+				hooks,
+				providers: [{ metatype: AuditHooks, instance: new AuditHooks() }],
+			}).onModuleInit();
+
+			calls.length = 0;
+			await hooks.before?.({ path, headers: new Headers(), context: {} });
+			return [...calls];
+		};
+
+		it('should run exact, regex and global hooks', async () => {
+			expect(await runHooks('/sign-up/email')).toEqual(['exact', 'regex', 'global']);
+		});
+
+		it('should match globs within a path segment', async () => {
+			expect(await runHooks('/sign-in/social')).toEqual(['glob', 'global']);
+			expect(await runHooks('/sign-in/email/otp')).toEqual(['global']);
+		});
+
+		it('should match globstars across path segments', async () => {
+			expect(await runHooks('/callback/google/extra')).toEqual(['glob', 'global']);
+		});
+
+		it('should run global hooks on every route', async () => {
+			expect(await runHooks('/get-session')).toEqual(['global']);
+		});
+
+		it('should register after hooks with the same matching', async () => {
+			const hooks: Record<string, (ctx: unknown) => Promise<unknown>> = {};
+			createModule({
+				hooks,
+				providers: [{ metatype: AuditHooks, instance: new AuditHooks() }],
+			}).onModuleInit();
+
+			calls.length = 0;
+			await hooks.after?.({ path: '/sign-in/email', headers: new Headers(), context: {} });
+			await hooks.after?.({ path: '/sign-up/email', headers: new Headers(), context: {} });
+
+			expect(calls).toEqual(['after']);
+		});
+	});
+
+	describe('Hook priority', () => {
+		it('should order hooks across providers by class and method priority', async () => {
+			const calls: string[] = [];
+
+			@Hook()
+			class AuditHooks {
+				@BeforeHook()
+				audit() {
+					calls.push('audit');
+				}
+			}
+
+			@Hook()
+			@HookPriority(10)
+			class RateLimitHooks {
+				@BeforeHook('/sign-in/*')
+				limit() {
+					calls.push('limit');
+				}
+
+				@HookPriority(-10)
+				@BeforeHook()
+				trace() {
+					calls.push('trace');
+				}
+			}
+
+			const hooks: Record<string, (ctx: unknown) => Promise<unknown>> = {};
+			createModule({
+				hooks,
+				providers: [
+					{ metatype: AuditHooks, instance: new AuditHooks() },
+					{ metatype: RateLimitHooks, instance: new RateLimitHooks() },
+				],
+			}).onModuleInit();
+			await hooks.before?.({ path: '/sign-in/email', headers: new Headers(), context: {} });
+
+			expect(calls).toEqual(['limit', 'audit', 'trace']);
+		});
+	});
+
+	describe('Named instances', () => {
+		it('should export the default instance under the shared tokens', () => {
+			const module = AuthModule.forRoot({ auth: {} as never });
+
+			expect(module.exports).toEqual(expect.arrayContaining([AUTH_MODULE_OPTIONS, AuthService]));
+			expect(module.providers).toContainEqual(expect.objectContaining({ provide: APP_GUARD }));
+		});
+
+		it('should only export name-scoped tokens for named instances', () => {
+			const module = AuthModule.forRoot({ auth: {} as never, name: 'admin' });
+
+			expect(module.exports).toEqual([getAuthOptionsToken('admin'), getAuthServiceToken('admin')]);
+			expect(module.providers).toContainEqual({
+				provide: getAuthServiceToken('admin'),
+				useExisting: AuthService,
+			});
+			expect(module.providers).not.toContainEqual(expect.objectContaining({ provide: APP_GUARD }));
+			expect(module.providers).not.toContainEqual(expect.objectContaining({ provide: APP_FILTER }));
+		});
+
+		it('should scope named async registrations', () => {
+			const module = AuthModule.forRootAsync({
+				name: 'admin',
+				useFactory: () => ({ auth: {} as never }),
+			});
+
+			expect(module.exports).toEqual([getAuthOptionsToken('admin'), getAuthServiceToken('admin')]);
+		});
+
+		it('should only register hook providers scoped to the instance', () => {
+			@Hook()
+			class DefaultHooks {}
+			@Hook('admin')
+			class AdminHooks {}
+
+			const providers = [
+				{ metatype: DefaultHooks, instance: new DefaultHooks() },
+				{ metatype: AdminHooks, instance: new AdminHooks() },
+			];
+
+			// Neither auth instance configures `hooks`, so discovered hook providers throw
+			expect(() => createModule({ providers }).onModuleInit()).toThrow();
+			expect(() => createModule({ providers, name: 'admin' }).onModuleInit()).toThrow();
+			expect(() =>
+				createModule({ providers: providers.slice(0, 1), name: 'admin' }).onModuleInit(),
+			).not.toThrow();
+			expect(() => createModule({ providers: providers.slice(1) }).onModuleInit()).not.toThrow();
+		});
+
+		it('should leave CORS and the Fastify preHandler to the default instance', () => {
+			createModule({ name: 'admin' }).configure({} as never);
+
+			expect(httpAdapter.enableCors).not.toHaveBeenCalled();
+			expect(fastify.decorate).not.toHaveBeenCalled();
+			expect(fastify.route).toHaveBeenCalled();
+		});
+	});
+
+	describe('Ownership resolvers', () => {
+		it('should register @OwnerResolver() providers', () => {
+			@OwnerResolver()
+			class InvoiceOwnerResolver {
+				resolveOwner() {
+					return 'owner-1';
+				}
+			}
+			class UnrelatedService {}
+
+			const instance = new InvoiceOwnerResolver();
+			const module = createModule({
+				providers: [
+					{ metatype: InvoiceOwnerResolver, instance },
+					{ metatype: UnrelatedService, instance: new UnrelatedService() },
+				],
+			});
+			module.onModuleInit();
+
+			const { auth } = (module as unknown as { options: AuthModuleConfig }).options;
+			const registry = getOwnershipResolvers(auth);
+			expect(registry.size).toBe(1);
+			expect(registry.get(InvoiceOwnerResolver)).toBe(instance);
+		});
+	});
+});
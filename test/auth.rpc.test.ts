@@ -0,0 +1,276 @@
+import type { CallHandler, ExecutionContext, INestMicroservice } from '@nestjs/common';
+import type { Reflector } from '@nestjs/core';
+import type { ClientProxy } from '@nestjs/microservices';
+import type { NestFastifyApplication } from '@nestjs/platform-fastify';
+import type { RpcSession, UserSession } from '../src/types';
+
+import { Controller, Get, Inject, Logger, UseGuards, UseInterceptors } from '@nestjs/common';
+import { ClientsModule, MessagePattern, Transport } from '@nestjs/microservices';
+import { FastifyAdapter } from '@nestjs/platform-fastify';
+import { Test } from '@nestjs/testing';
+
+import { APIError } from 'better-auth/api';
+import { firstValueFrom, Observable } from 'rxjs';
+
+import { AuthGuard } from '../src/auth.guard';
+import { Roles, Session } from '../src/auth.decorators';
+import {
+	getRpcSession,
+	RPC_SESSION_KEY,
+	RpcSessionInterceptor,
+	RpcSessionSerializer,
+	readRpcSession,
+	signSessionEnvelope,
+	verifySessionEnvelope,
+} from '../src/auth.rpc';
+import { AUTH_MODULE_OPTIONS } from '../src/auth.symbols';
+import { afterAll, beforeAll, describe, expect, it, mock } from 'bun:test';
+import { createServer } from 'node:net';
+
+const options = { auth: { api: {}, options: {} }, rpc: { secret: 'test-secret' } } as never;
+
+const createSession = (expiresInSeconds = 3600) =>
+	({
+		user: { id: 'user-1' },
+		session: { id: 'session-1', expiresAt: new Date(Date.now() + expiresInSeconds * 1000) },
+	}) as unknown as UserSession;
+
+const rpcContext = (data: unknown) =>
+	({
+		getType: () => 'rpc',
+		switchToRpc: () => ({ getData: () => data, getContext: () => ({}) }),
+		getHandler: () => ({}),
+		getClass: () => ({}),
+	}) as unknown as ExecutionContext;
+
+describe('RPC session propagation', () => {
+	describe('session envelopes', () => {
+		it('should verify signed envelopes', () => {
+			const envelope = verifySessionEnvelope(signSessionEnvelope(createSession(), options), options);
+
+			expect(envelope).toMatchObject({ userId: 'user-1', sessionId: 'session-1' });
+		});
+
+		it('should cap the envelope lifetime with the ttl', () => {
+			const envelope = verifySessionEnvelope(
+				signSessionEnvelope(createSession(), { ...(options as object), rpc: { secret: 's', ttl: '1m' } } as never),
+				{ ...(options as object), rpc: { secret: 's' } } as never,
+			);
+
+			expect(envelope?.expiresAt).toBeLessThanOrEqual(Date.now() + 60_000);
+		});
+
+		it('should reject tampered, foreign and expired envelopes', () => {
+			const [payload, signature] = signSessionEnvelope(createSession(), options).split('.');
+			const forged = Buffer.from(
+				JSON.stringify({ userId: 'admin', sessionId: 'session-1', expiresAt: Date.now() + 60_000 }),
+			).toString('base64url');
+			const foreign = signSessionEnvelope(createSession(), {
+				auth: { options: {} },
+				rpc: { secret: 'other-secret' },
+			} as never);
+
+			expect(verifySessionEnvelope(`${forged}.${signature}`, options)).toBeNull();
+			expect(verifySessionEnvelope(`${payload}.`, options)).toBeNull();
+			expect(verifySessionEnvelope(foreign, options)).toBeNull();
+			expect(verifySessionEnvelope(signSessionEnvelope(createSession(-1), options), options)).toBeNull();
+			expect(verifySessionEnvelope(undefined, options)).toBeNull();
+		});
+
+		it('should read the session and strip the envelope from the payload', () => {
+			const data = { invoiceId: 'invoice-1', [RPC_SESSION_KEY]: signSessionEnvelope(createSession(), options) };
+
+			const session = readRpcSession(data, options);
+
+			expect(session?.user.id).toBe('user-1');
+			expect(session?.session.id).toBe('session-1');
+			expect(data).toEqual({ invoiceId: 'invoice-1' });
+			expect(readRpcSession(data, options)).toBe(session);
+			expect(getRpcSession(data)).toBe(session);
+		});
+	});
+
+	describe('RpcSessionInterceptor', () => {
+		const serializer = new RpcSessionSerializer();
+
+		const httpContext = (session: UserSession | null) =>
+			({
+				getType: () => 'http',
+				switchToHttp: () => ({ getRequest: () => ({ headers: {}, session }) }),
+			}) as unknown as ExecutionContext;
+
+		// Simulates `ClientProxy.send()` publishing asynchronously from the handler
+		const sendingHandler: CallHandler = {
+			handle: () =>
+				new Observable(subscriber => {
+					setTimeout(() => {
+						subscriber.next(serializer.serialize({ pattern: 'invoices.list', data: { page: 1 } }));
+						subscriber.complete();
+					}, 0);
+				}),
+		};
+
+		it('should attach the signed session to outgoing packets', async () => {
+			const interceptor = new RpcSessionInterceptor(options);
+
+			const packet = (await firstValueFrom(
+				interceptor.intercept(httpContext(createSession()), sendingHandler),
+			)) as { pattern: string; data: Record<string, unknown> };
+
+			expect(packet.pattern).toBe('invoices.list');
+			expect(packet.data.page).toBe(1);
+			expect(verifySessionEnvelope(packet.data[RPC_SESSION_KEY], options)?.userId).toBe('user-1');
+		});
+
+		it('should forward the verified session of incoming messages', async () => {
+			const interceptor = new RpcSessionInterceptor(options);
+			const data = { [RPC_SESSION_KEY]: signSessionEnvelope(createSession(), options) };
+			readRpcSession(data, options);
+
+			const packet = (await firstValueFrom(interceptor.intercept(rpcContext(data), sendingHandler))) as {
+				data: Record<string, unknown>;
+			};
+
+			expect(verifySessionEnvelope(packet.data[RPC_SESSION_KEY], options)?.sessionId).toBe('session-1');
+		});
+
+		it('should not forward sessions spoofed on the payload', async () => {
+			const interceptor = new RpcSessionInterceptor(options);
+			const data = { session: createSession() };
+
+			const packet = await firstValueFrom(interceptor.intercept(rpcContext(data), sendingHandler));
+
+			expect(packet).toEqual({ pattern: 'invoices.list', data: { page: 1 } });
+		});
+
+		it('should leave packets unchanged without a session', async () => {
+			const interceptor = new RpcSessionInterceptor(options);
+
+			const packet = await firstValueFrom(interceptor.intercept(httpContext(null), sendingHandler));
+
+			expect(packet).toEqual({ pattern: 'invoices.list', data: { page: 1 } });
+		});
+
+		it('should delegate to a wrapped serializer', () => {
+			const inner = { serialize: mock((value: unknown) => JSON.stringify(value)) };
+
+			expect(new RpcSessionSerializer(inner).serialize({ data: 1 })).toBe('{"data":1}');
+		});
+	});
+
+	describe('AuthGuard', () => {
+		const getSession = mock(() => Promise.resolve(null));
+		const reflector = { getAllAndOverride: mock(() => undefined) };
+		const guard = new AuthGuard(reflector as unknown as Reflector, {
+			...(options as object),
+			auth: { api: { getSession }, options: {} },
+		} as never);
+
+		it('should verify the session without writing it to the payload', async () => {
+			const data: Record<string, unknown> = {
+				[RPC_SESSION_KEY]: signSessionEnvelope(createSession(), options),
+			};
+
+			expect(await guard.canActivate(rpcContext(data))).toBe(true);
+			expect(data).toEqual({});
+			expect(getRpcSession(data)?.user.id).toBe('user-1');
+			expect(getSession).not.toHaveBeenCalled();
+		});
+
+		it('should ignore sessions spoofed on the payload', async () => {
+			const data = { session: createSession(), user: { id: 'admin' } };
+
+			await expect(guard.canActivate(rpcContext(data))).rejects.toThrow(APIError);
+			expect(getRpcSession(data)).toBeNull();
+		});
+
+		it('should reject policies that need fields RPC sessions do not carry', async () => {
+			const data = { [RPC_SESSION_KEY]: signSessionEnvelope(createSession(), options) };
+			reflector.getAllAndOverride = mock(decorator => (decorator === Roles ? ['admin'] : undefined));
+
+			await expect(guard.canActivate(rpcContext(data))).rejects.toThrow(
+				'@Roles() is not supported on microservice handlers',
+			);
+			reflector.getAllAndOverride = mock(() => undefined);
+		});
+
+		it('should reject messages without a valid envelope', async () => {
+			const data = { [RPC_SESSION_KEY]: 'forged.envelope' };
+
+			await expect(guard.canActivate(rpcContext(data))).rejects.toThrow(APIError);
+			expect(getSession).not.toHaveBeenCalled();
+		});
+	});
+
+	describe('over TCP', () => {
+		@Controller()
+		@UseGuards(AuthGuard)
+		class BillingController {
+			@MessagePattern('invoices.list')
+			list(@Session() session: RpcSession) {
+				return { userId: session.user.id };
+			}
+		}
+
+		@Controller('invoices')
+		@UseGuards(AuthGuard)
+		@UseInterceptors(RpcSessionInterceptor)
+		class InvoicesController {
+			constructor(@Inject('BILLING') private readonly billing: ClientProxy) {}
+
+			@Get()
+			list() {
+				return this.billing.send('invoices.list', { page: 1 });
+			}
+		}
+
+		const freePort = () =>
+			new Promise<number>(resolve => {
+				const server = createServer().listen(0, () => {
+					const { port } = server.address() as { port: number };
+					server.close(() => resolve(port));
+				});
+			});
+
+		let billing: INestMicroservice;
+		let app: NestFastifyApplication;
+
+		beforeAll(async () => {
+			Logger.overrideLogger(false);
+			const port = await freePort();
+
+			const billingModule = await Test.createTestingModule({
+				controllers: [BillingController],
+				providers: [{ provide: AUTH_MODULE_OPTIONS, useValue: options }],
+			}).compile();
+			billing = billingModule.createNestMicroservice({ transport: Transport.TCP, options: { port } });
+			await billing.listen();
+
+			const getSession = mock(() => Promise.resolve(createSession()));
+			const callerModule = await Test.createTestingModule({
+				imports: [
+					ClientsModule.register([
+						{ name: 'BILLING', transport: Transport.TCP, options: { port, serializer: new RpcSessionSerializer() } },
+					]),
+				],
+				controllers: [InvoicesController],
+				providers: [{ provide: AUTH_MODULE_OPTIONS, useValue: { ...(options as object), auth: { api: { getSession }, options: {} } } }],
+			}).compile();
+			app = callerModule.createNestApplication<NestFastifyApplication>(new FastifyAdapter());
+			await app.init();
+			await app.getHttpAdapter().getInstance().ready();
+		});
+
+		afterAll(async () => {
+			await app.close();
+			await billing.close();
+		});
+
+		it("should pass the caller's session to the microservice handler", async () => {
+			const response = await app.inject({ method: 'GET', url: '/invoices' });
+
+			expect(response.statusCode).toBe(200);
+			expect(response.json()).toEqual({ userId: 'user-1' });
+		});
+	});
+});
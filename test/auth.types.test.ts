@@ -0,0 +1,203 @@
+import ts from 'typescript';
+
+import { describe, expect, it } from 'bun:test';
+import { join } from 'node:path';
+
+const root = join(import.meta.dir, '..');
+
+const compilerOptions: ts.CompilerOptions = {
+	target: ts.ScriptTarget.ES2021,
+	module: ts.ModuleKind.ESNext,
+	moduleResolution: ts.ModuleResolutionKind.Bundler,
+	esModuleInterop: true,
+	strict: true,
+	skipLibCheck: true,
+	experimentalDecorators: true,
+	emitDecoratorMetadata: true,
+	noEmit: true,
+};
+
+/**
+ * Type-check an application file importing the package, returning its diagnostics
+ */
+const typeCheck = (source: string): string[] => {
+	const fileName = join(root, 'test', '__type-fixture.ts');
+	const host = ts.createCompilerHost(compilerOptions);
+	const { fileExists, getSourceFile, readFile } = host;
+
+	host.fileExists = file => file === fileName || fileExists(file);
+	host.readFile = file => (file === fileName ? source : readFile(file));
+	host.getSourceFile = (file, languageVersion, ...rest) =>
+		file === fileName
+			? ts.createSourceFile(file, source, languageVersion)
+			: getSourceFile(file, languageVersion, ...rest);
+
+	const program = ts.createProgram([fileName], compilerOptions, host);
+	return ts
+		.getPreEmitDiagnostics(program)
+		.filter(diagnostic => diagnostic.file?.fileName === fileName)
+		.map(diagnostic => ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'));
+};
+
+const createAuth = `
+	import type { FastifyRequest } from 'fastify';
+	import type { AuthService, AuthSession, User, UserSession } from '../src';
+
+	import { betterAuth } from 'better-auth';
+	import { admin, organization, twoFactor } from 'better-auth/plugins';
+
+	const auth = betterAuth({
+		plugins: [admin(), organization(), twoFactor()],
+		user: { additionalFields: { locale: { type: 'string', required: true } } },
+	});
+
+	declare const session: UserSession;
+	declare const user: User;
+	declare const record: AuthSession;
+	declare const request: FastifyRequest;
+	declare const service: AuthService;
+`;
+
+describe('AuthRegister', () => {
+	it('should infer sessions from the registered auth instance', () => {
+		const diagnostics = typeCheck(`
+			${createAuth}
+
+			declare module '../src' {
+				interface AuthRegister {
+					auth: typeof auth;
+				}
+			}
+
+			const locale: string = session.user.locale;
+			const role: string | null | undefined = user.role;
+			const twoFactorEnabled: boolean | null | undefined = user.twoFactorEnabled;
+			const organizationId: string | null | undefined = record.activeOrganizationId;
+			const impersonatedBy: string | null | undefined = session.session.impersonatedBy;
+			const requestLocale: string | undefined = request.user?.locale;
+			const banUser: typeof auth.api.banUser = service.api.banUser;
+			const createOrganization: typeof auth.api.createOrganization =
+				service.api.createOrganization;
+
+			// @ts-expect-error - fields unknown to the instance stay type errors
+			user.nickname;
+		`);
+
+		expect(diagnostics).toEqual([]);
+	}, 60_000);
+
+	it('should keep the base session types without a registration', () => {
+		const diagnostics = typeCheck(`
+			${createAuth}
+
+			const email: string = session.user.email;
+			const expiresAt: Date = record.expiresAt;
+			const generateOpenAPISchema = service.api.generateOpenAPISchema;
+
+			// @ts-expect-error - plugin fields require a registration
+			user.role;
+			// @ts-expect-error - additional fields require a registration
+			request.user?.locale;
+		`);
+
+		expect(diagnostics).toEqual([]);
+	}, 60_000);
+});
+
+const createHooks = `
+	${createAuth}
+
+	import { Injectable } from '@nestjs/common';
+	import { AfterHook, type AuthHookContext, BeforeHook, Hook } from '../src';
+`;
+
+describe('Typed hooks', () => {
+	it('should type hook contexts after the endpoints of the registered auth instance', () => {
+		const diagnostics = typeCheck(`
+			${createHooks}
+
+			declare module '../src' {
+				interface AuthRegister {
+					auth: typeof auth;
+				}
+			}
+
+			@Hook()
+			@Injectable()
+			class TypedHooks {
+				@BeforeHook('/sign-up/email')
+				signUp(ctx: AuthHookContext<'/sign-up/email'>) {
+					const email: string = ctx.body.email;
+					const name: string = ctx.body.name;
+				}
+
+				@AfterHook('/sign-in/email')
+				signIn(ctx: AuthHookContext<'/sign-in/email'>) {
+					const returned = ctx.context.returned;
+					if (returned && !(returned instanceof Error)) {
+						const userId: string = returned.user.id;
+					}
+				}
+
+				@BeforeHook('/two-factor/enable')
+				enableTwoFactor(ctx: AuthHookContext<'/two-factor/enable'>) {
+					const password: string = ctx.body.password;
+				}
+
+				@BeforeHook(['/sign-in/*', '/organization/**', /^\\/admin\\//])
+				matchers(ctx: AuthHookContext) {}
+
+				@AfterHook()
+				all(ctx: AuthHookContext) {}
+
+				@BeforeHook('/sign-up/email')
+				untyped(ctx: AuthHookContext) {}
+
+				// @ts-expect-error - routes must be endpoints of the instance
+				@BeforeHook('/sign-up/emial')
+				typo() {}
+
+				// @ts-expect-error - globs must match an endpoint
+				@BeforeHook(['/sign-in/*', '/sing-in/*'])
+				glob() {}
+
+				// @ts-expect-error - the context must belong to the hooked endpoint
+				@BeforeHook('/sign-in/email')
+				mismatch(ctx: AuthHookContext<'/sign-up/email'>) {}
+
+				@BeforeHook('/sign-up/email')
+				unknownField(ctx: AuthHookContext<'/sign-up/email'>) {
+					// @ts-expect-error - fields unknown to the endpoint body
+					ctx.body.nickname;
+				}
+			}
+		`);
+
+		expect(diagnostics).toEqual([]);
+	}, 60_000);
+
+	it('should accept any route without a registration', () => {
+		const diagnostics = typeCheck(`
+			${createHooks}
+
+			@Hook()
+			@Injectable()
+			class UntypedHooks {
+				@BeforeHook('/sign-up/email')
+				signUp(ctx: AuthHookContext<'/sign-up/email'>) {
+					const email: string = ctx.body.email;
+				}
+
+				@BeforeHook('/two-factor/enable')
+				enableTwoFactor(ctx: AuthHookContext<'/two-factor/enable'>) {
+					const body: unknown = ctx.body.password;
+				}
+
+				@BeforeHook(['/custom/route', '/custom/*'])
+				custom(ctx: AuthHookContext) {}
+			}
+		`);
+
+		expect(diagnostics).toEqual([]);
+	}, 60_000);
+});
@@ -0,0 +1,223 @@
+import type { ExecutionContext } from '@nestjs/common';
+import type { UserSession } from '../src/types';
+import type { WsClient } from '../src/auth.ws';
+
+import { Logger } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+
+import { APIError } from 'better-auth/api';
+
+import { AuthGuard } from '../src/auth.guard';
+import { getWsSession, WsSessionManager } from '../src/auth.ws';
+import { afterEach, beforeAll, beforeEach, describe, expect, it, mock } from 'bun:test';
+
+const createSession = (expiresInSeconds = 3600) =>
+	({
+		user: { id: 'user-1' },
+		session: { id: 'session-1', expiresAt: new Date(Date.now() + expiresInSeconds * 1000) },
+	}) as unknown as UserSession;
+
+const createClient = (auth?: Record<string, unknown>) => ({
+	handshake: { headers: { cookie: 'better-auth.session_token=token' }, auth },
+	disconnect: mock(() => undefined),
+	once: mock(() => undefined),
+});
+
+describe('WsSessionManager', () => {
+	let getSession: ReturnType<typeof mock>;
+	let auth: { api: { getSession: ReturnType<typeof mock> } };
+	let manager: WsSessionManager;
+	let client: ReturnType<typeof createClient>;
+
+	beforeAll(() => {
+		Logger.overrideLogger(false);
+	});
+
+	beforeEach(() => {
+		getSession = mock(() => Promise.resolve(createSession()));
+		auth = { api: { getSession } };
+		manager = new WsSessionManager({ auth } as never);
+		client = createClient();
+	});
+
+	afterEach(() => {
+		manager.onModuleDestroy();
+	});
+
+	it('should cache the session on the client', async () => {
+		const session = await manager.authenticate(client);
+
+		expect(session).not.toBeNull();
+		expect(getWsSession(client)).toBe(session as UserSession);
+		expect(client.disconnect).not.toHaveBeenCalled();
+	});
+
+	it('should disconnect unauthenticated clients', async () => {
+		getSession.mockImplementation(() => Promise.resolve(null));
+
+		const session = await manager.authenticate(client);
+
+		expect(session).toBeNull();
+		expect(getWsSession(client)).toBeUndefined();
+		expect(client.disconnect).toHaveBeenCalledWith(true);
+	});
+
+	it('should close ws clients with an unauthorized close code', async () => {
+		getSession.mockImplementation(() => Promise.resolve(null));
+		const wsClient = { close: mock(() => undefined) };
+
+		await manager.authenticate(wsClient, {});
+
+		expect(wsClient.close).toHaveBeenCalledWith(4401, 'Unauthorized');
+	});
+
+	it('should send handshake auth tokens as bearer tokens', async () => {
+		await manager.authenticate(createClient({ token: 'session-token' }));
+
+		const [{ headers }] = getSession.mock.calls[0] as [{ headers: Headers }];
+		expect(headers.get('authorization')).toBe('Bearer session-token');
+	});
+
+	it('should disconnect clients whose session was revoked', async () => {
+		await manager.authenticate(client);
+		getSession.mockImplementation(() => Promise.resolve(null));
+
+		const valid = await manager.revalidate(client);
+
+		expect(valid).toBe(false);
+		expect(getWsSession(client)).toBeUndefined();
+		expect(client.disconnect).toHaveBeenCalledWith(true);
+		expect(getSession.mock.calls[1]?.[0]).toMatchObject({ query: { disableCookieCache: true } });
+	});
+
+	it('should keep clients connected when the lookup fails', async () => {
+		await manager.authenticate(client);
+		getSession.mockImplementation(() => Promise.reject(new Error('database unavailable')));
+
+		const valid = await manager.revalidate(client);
+
+		expect(valid).toBe(true);
+		expect(getWsSession(client)).toBeDefined();
+		expect(client.disconnect).not.toHaveBeenCalled();
+	});
+
+	it('should re-validate when the session expires', async () => {
+		getSession.mockImplementationOnce(() => Promise.resolve(createSession(0)));
+		getSession.mockImplementation(() => Promise.resolve(null));
+
+		await manager.authenticate(client);
+		await new Promise(resolve => setTimeout(resolve, 10));
+
+		expect(getSession).toHaveBeenCalledTimes(2);
+		expect(client.disconnect).toHaveBeenCalledWith(true);
+	});
+
+	it('should re-validate on the configured interval', async () => {
+		manager = new WsSessionManager({
+			auth: { api: { getSession } },
+			websocket: { revalidateInterval: 0.005 },
+		} as never);
+
+		await manager.authenticate(client);
+		await new Promise(resolve => setTimeout(resolve, 20));
+
+		expect(getSession.mock.calls.length).toBeGreaterThan(1);
+	});
+
+	it('should stop monitoring released clients', async () => {
+		await manager.authenticate(client);
+
+		manager.release(client);
+
+		expect(getWsSession(client)).toBeUndefined();
+		expect(await manager.revalidate(client)).toBe(false);
+	});
+
+	it('should let AuthGuard use the cached session', async () => {
+		const session = await manager.authenticate(client);
+		getSession.mockClear();
+
+		const guard = new AuthGuard(
+			{ getAllAndOverride: mock(() => undefined) } as unknown as Reflector,
+			{ auth } as never,
+		);
+		const context = {
+			getType: () => 'ws',
+			switchToWs: () => ({ getClient: () => client as WsClient, getData: () => ({}) }),
+			getHandler: () => ({}),
+			getClass: () => ({}),
+		} as unknown as ExecutionContext;
+
+		expect(await guard.canActivate(context)).toBe(true);
+		expect(getSession).not.toHaveBeenCalled();
+		expect((client.handshake as { session?: unknown }).session).toBe(session);
+	});
+
+	it('should ignore sessions of another auth instance in AuthGuard', async () => {
+		await manager.authenticate(client);
+		const adminApi = { getSession: mock(() => Promise.resolve(null)) };
+		const guard = new AuthGuard(
+			{ getAllAndOverride: mock(() => undefined) } as unknown as Reflector,
+			{ auth: { api: adminApi } } as never,
+		);
+		const context = {
+			getType: () => 'ws',
+			switchToWs: () => ({ getClient: () => client as WsClient, getData: () => ({}) }),
+			getHandler: () => ({}),
+			getClass: () => ({}),
+		} as unknown as ExecutionContext;
+
+		const error = await guard.canActivate(context).catch(e => e);
+
+		expect(error).toBeInstanceOf(APIError);
+		expect(error.statusCode).toBe(401);
+		expect(adminApi.getSession).toHaveBeenCalledTimes(1);
+	});
+
+	describe('raw ws clients', () => {
+		const createRawClient = () => ({
+			readyState: 1,
+			send: mock(() => undefined),
+			close: mock(() => undefined),
+			on: mock(() => undefined),
+			once: mock(() => undefined),
+		});
+
+		const createContext = (rawClient: ReturnType<typeof createRawClient>) =>
+			({
+				getType: () => 'ws',
+				switchToWs: () => ({ getClient: () => rawClient as WsClient, getData: () => ({}) }),
+				getHandler: () => ({}),
+				getClass: () => ({}),
+			}) as unknown as ExecutionContext;
+
+		const createGuard = () =>
+			new AuthGuard(
+				{ getAllAndOverride: mock(() => undefined) } as unknown as Reflector,
+				{ auth } as never,
+			);
+
+		it('should let AuthGuard use the session of authenticated clients', async () => {
+			const rawClient = createRawClient();
+			const session = await manager.authenticate(rawClient, {
+				cookie: 'better-auth.session_token=token',
+			});
+			getSession.mockClear();
+
+			expect(await createGuard().canActivate(createContext(rawClient))).toBe(true);
+			expect(getSession).not.toHaveBeenCalled();
+			expect(getWsSession(rawClient)).toBe(session as UserSession);
+		});
+
+		it('should reject unauthenticated clients with UNAUTHORIZED', async () => {
+			getSession.mockImplementation(() => Promise.resolve(null));
+
+			const error = await createGuard()
+				.canActivate(createContext(createRawClient()))
+				.catch(e => e);
+
+			expect(error).toBeInstanceOf(APIError);
+			expect(error.statusCode).toBe(401);
+		});
+	});
+});
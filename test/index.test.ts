@@ -1,4 +1,4 @@
-import { AuthFilter, AuthGuard, AuthModule, AuthService } from '../src';
+import { AUTH_ERROR_CODES, AuthFilter, AuthGuard, AuthModule, AuthService } from '../src';
 import { expect, test } from 'bun:test';
 
 test('should export AuthModule', () => {
@@ -12,3 +12,8 @@ test('should export guards and services', () => {
 	expect(AuthService).toBeDefined();
 	expect(AuthFilter).toBeDefined();
 });
+
+test('should export auth error codes', () => {
+	expect(AUTH_ERROR_CODES.SESSION_NOT_FRESH).toBe('SESSION_NOT_FRESH');
+	expect(AUTH_ERROR_CODES.INSUFFICIENT_ROLE).toBe('INSUFFICIENT_ROLE');
+});